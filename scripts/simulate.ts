@@ -0,0 +1,78 @@
+// Balance testing: plays many battles and campaigns headlessly and prints the results.
+// Usage: npm run simulate -- [--party charmander,pikachu] [--difficulty normal] [--battles 100] [--runs 100] [--seed 1]
+import { simulateEncounters, simulateCampaigns } from '../src/engine/simulator';
+import type { EncounterReport } from '../src/engine/simulator';
+import { getPokemonStats } from '../src/config/pokemon';
+import type { PokemonId } from '../src/config/pokemon';
+import { DIFFICULTIES } from '../src/config/difficulty';
+import type { Difficulty } from '../src/config/difficulty';
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+function printEncounters(reports: EncounterReport[]): void {
+  console.table(reports.map(report => ({
+    encounter: report.encounterId,
+    battles: report.battles,
+    'win %': (report.winRate * 100).toFixed(1),
+    'avg rounds': report.averageRounds.toFixed(1),
+    'avg HP left': report.averageHpRemaining.toFixed(1),
+    'avg HP left %': report.averageHpRemainingPercent.toFixed(1),
+  })));
+
+  printCardDamage('Party', reports, report => report.damageByCard);
+  printCardDamage('Enemy', reports, report => report.enemyDamageByCard);
+}
+
+// Damage per battle by card, averaged across encounters weighted by battles fought
+function printCardDamage(
+  side: string,
+  reports: EncounterReport[],
+  getDamage: (report: EncounterReport) => Record<string, number>
+): void {
+  const totalBattles = reports.reduce((sum, report) => sum + report.battles, 0);
+  const damageByCard: Record<string, number> = {};
+  for (const report of reports) {
+    for (const [cardId, damage] of Object.entries(getDamage(report))) {
+      damageByCard[cardId] = (damageByCard[cardId] ?? 0) + (damage * report.battles) / totalBattles;
+    }
+  }
+  console.table(
+    Object.entries(damageByCard)
+      .sort(([, a], [, b]) => b - a)
+      .map(([card, damage]) => ({ [`${side} card`]: card, 'avg damage / battle': damage.toFixed(1) }))
+  );
+}
+
+const pokemonIds = getArg('party', 'charmander,pikachu').split(',') as PokemonId[];
+const battlesPerEncounter = Number(getArg('battles', '100'));
+const runs = Number(getArg('runs', '100'));
+const seed = Number(getArg('seed', '1'));
+const difficulty = getArg('difficulty', 'normal') as Difficulty;
+
+if (!DIFFICULTIES[difficulty]) {
+  console.error(`Unknown difficulty: ${difficulty}`);
+  process.exit(1);
+}
+
+const invalid = pokemonIds.filter(id => !getPokemonStats(id));
+if (invalid.length > 0) {
+  console.error(`Unknown Pokemon: ${invalid.join(', ')}`);
+  process.exit(1);
+}
+
+const players = pokemonIds.map((pokemonId, i) => ({ id: `${i + 1}`, name: `Player ${i + 1}`, pokemonId }));
+
+console.log(`Party: ${pokemonIds.join(', ')} | ${DIFFICULTIES[difficulty].name} | seed ${seed}`);
+console.log(`\nSingle encounters (${battlesPerEncounter} battles each, full HP starter decks)`);
+printEncounters(simulateEncounters(
+  players.map(p => ({ pokemonId: p.pokemonId, playerId: p.id, playerName: p.name })),
+  { battlesPerEncounter, seed, difficulty }
+));
+
+const campaigns = simulateCampaigns(players, { runs, seed, difficulty });
+console.log(`\nCampaigns (${runs} runs)`);
+console.log(`Win rate: ${(campaigns.winRate * 100).toFixed(1)}% | average nodes cleared: ${campaigns.averageNodesCleared.toFixed(1)}`);
+printEncounters(campaigns.encounters);
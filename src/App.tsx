@@ -1,13 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { IntroScreen } from './ui/screens/IntroScreen';
 import { PlayerSetupScreen } from './ui/screens/PlayerSetupScreen';
 import { StarterSelectionScreen } from './ui/screens/StarterSelectionScreen';
 import { MapScreen } from './ui/screens/MapScreen';
 import { CombatScreen } from './ui/screens/CombatScreen';
+import { RewardScreen } from './ui/screens/RewardScreen';
+import { DeckServiceScreen } from './ui/screens/DeckServiceScreen';
+import { EventScreen } from './ui/screens/EventScreen';
 import { VictoryScreen } from './ui/screens/VictoryScreen';
 import { DefeatScreen } from './ui/screens/DefeatScreen';
 import { useGameState } from './ui/hooks/useGameState';
+import { canUndo } from './engine/undo';
 import type { PokemonId } from './config/pokemon';
+import type { Difficulty } from './config/difficulty';
+import { getNode } from './config/campaign';
+import { getEvent } from './config/events';
 import './App.css';
 
 function App() {
@@ -15,6 +22,8 @@ function App() {
   const [screen, setScreen] = useState<'intro' | 'playerSetup' | 'starterSelection' | 'game'>(() => {
     // If there's a saved game, start in game mode
     if (gameState.gameState.screen === 'map' || gameState.gameState.screen === 'combat' || 
+        gameState.gameState.screen === 'reward' || gameState.gameState.screen === 'smith' ||
+        gameState.gameState.screen === 'purge' || gameState.gameState.screen === 'event' ||
         gameState.gameState.screen === 'victory' || gameState.gameState.screen === 'defeat') {
       return 'game';
     }
@@ -46,13 +55,13 @@ function App() {
     setScreen('starterSelection');
   };
 
-  const handleStarterSelection = (selections: Record<string, PokemonId>) => {
+  const handleStarterSelection = (selections: Record<string, PokemonId>, difficulty: Difficulty) => {
     const playersWithPokemon = players.map(p => ({
       id: p.id,
       name: p.name,
       pokemonId: selections[p.id],
     }));
-    gameState.handleStartCampaign(playersWithPokemon);
+    gameState.handleStartCampaign(playersWithPokemon, difficulty);
     setScreen('game');
   };
 
@@ -97,10 +106,6 @@ function App() {
   if (screen === 'game') {
     const { gameState: state } = gameState;
 
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'App.tsx:97',message:'App render - game screen routing',data:{screen:state.screen,hasBattle:!!state.battle,hasCampaign:!!state.campaign,battleResult:state.battle?.result,hasError:!!state.error},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
-    // #endregion
-
     // Error modal
     if (state.error) {
       return (
@@ -200,7 +205,13 @@ function App() {
       return (
         <CombatScreen
           battleState={state.battle}
+          battleLog={state.battleLog}
+          recording={state.battleRecording}
+          autopilotPlayerIds={state.autopilotPlayerIds}
+          onToggleAutopilot={gameState.handleToggleAutopilot}
           onAction={gameState.handleBattleAction}
+          canUndo={canUndo(state.undoStack)}
+          onUndo={gameState.handleUndo}
           onBattleEnd={gameState.handleBattleEnd}
           onResetGame={() => {
             gameState.handleResetGame();
@@ -212,12 +223,43 @@ function App() {
     }
 
     if (state.screen === 'combat' && !state.battle) {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'App.tsx:115',message:'CRITICAL: combat screen but no battle state',data:{screen:state.screen},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
       return <div style={{padding:'20px',color:'white'}}>Error: Combat screen but no battle state</div>;
     }
 
+    if (state.screen === 'reward' && state.campaign && state.cardRewards) {
+      return (
+        <RewardScreen
+          campaignState={state.campaign}
+          cardRewards={state.cardRewards}
+          onConfirm={gameState.handleChooseCardRewards}
+        />
+      );
+    }
+
+    if ((state.screen === 'smith' || state.screen === 'purge') && state.campaign) {
+      return (
+        <DeckServiceScreen
+          service={state.screen}
+          campaignState={state.campaign}
+          onConfirm={gameState.handleDeckService}
+        />
+      );
+    }
+
+    if (state.screen === 'event' && state.campaign) {
+      const eventId = getNode(state.campaign.currentNodeId, state.campaign.map)?.eventId;
+      const event = eventId ? getEvent(eventId) : undefined;
+      if (event) {
+        return (
+          <EventScreen
+            event={event}
+            campaignState={state.campaign}
+            onChoose={gameState.handleEventChoice}
+          />
+        );
+      }
+    }
+
     if (state.screen === 'victory') {
       return (
         <VictoryScreen
@@ -1,9 +1,11 @@
-export type NodeType = 'battle' | 'event' | 'boss' | 'evolution';
+export type NodeType = 'battle' | 'event' | 'boss' | 'evolution' | 'smith' | 'purge';
 
 export interface CampaignNode {
   id: string;
   type: NodeType;
   encounterId?: string; // For battle/boss nodes
+  eventId?: string; // For event nodes with a scripted event
+  checkpointId?: string; // For evolution nodes, defaults to the node ID
   name: string;
   nextNodes: string[]; // IDs of nodes that can be reached from this one
 }
@@ -48,13 +50,28 @@ export const CAMPAIGN_MAP: CampaignMap = {
     converge1: {
       id: 'converge1',
       type: 'event',
+      eventId: 'abandonedSupplies',
       name: 'Lab Corridor',
+      nextNodes: ['workshop1', 'recycler1'],
+    },
+    // Deck services - upgrade or remove a card
+    workshop1: {
+      id: 'workshop1',
+      type: 'smith',
+      name: 'Lab Workshop',
+      nextNodes: ['firstEvolution'],
+    },
+    recycler1: {
+      id: 'recycler1',
+      type: 'purge',
+      name: 'Recycling Room',
       nextNodes: ['firstEvolution'],
     },
     // First evolution checkpoint
     firstEvolution: {
       id: 'firstEvolution',
       type: 'evolution',
+      checkpointId: 'firstEvolution',
       name: 'Evolution Checkpoint',
       nextNodes: ['giovanni'],
     },
@@ -70,6 +87,7 @@ export const CAMPAIGN_MAP: CampaignMap = {
     converge2: {
       id: 'converge2',
       type: 'event',
+      eventId: 'rocketGrunt',
       name: 'Lab Exit',
       nextNodes: ['cloneA', 'cloneB', 'cloneC'],
     },
@@ -99,13 +117,28 @@ export const CAMPAIGN_MAP: CampaignMap = {
     converge3: {
       id: 'converge3',
       type: 'event',
+      eventId: 'psychicEcho',
       name: 'Mewtwo\'s Chamber',
+      nextNodes: ['workshop2', 'recycler2'],
+    },
+    // Deck services - upgrade or remove a card
+    workshop2: {
+      id: 'workshop2',
+      type: 'smith',
+      name: 'Cloning Lab Controls',
+      nextNodes: ['secondEvolution'],
+    },
+    recycler2: {
+      id: 'recycler2',
+      type: 'purge',
+      name: 'Waste Disposal',
       nextNodes: ['secondEvolution'],
     },
     // Second evolution checkpoint
     secondEvolution: {
       id: 'secondEvolution',
       type: 'evolution',
+      checkpointId: 'secondEvolution',
       name: 'Final Evolution',
       nextNodes: ['mewtwo'],
     },
@@ -120,10 +153,63 @@ export const CAMPAIGN_MAP: CampaignMap = {
   },
 };
 
-export function getNode(nodeId: string): CampaignNode | undefined {
-  return CAMPAIGN_MAP.nodes[nodeId];
+export function getNode(nodeId: string, map: CampaignMap = CAMPAIGN_MAP): CampaignNode | undefined {
+  return map.nodes[nodeId];
+}
+
+export function getStartNode(map: CampaignMap = CAMPAIGN_MAP): CampaignNode {
+  return map.nodes[map.startNodeId];
+}
+
+// Rules for procedurally generated maps (see engine/mapGenerator.ts)
+export type GeneratedNodeType = 'battle' | 'event' | 'smith' | 'purge';
+
+export interface ActRules {
+  layers: number; // Layers of regular nodes before the act's evolution checkpoint and boss
+  battleEncounterIds: string[];
+  eventIds: string[]; // Events that can appear in this act; each appears at most once per map while any are unused
+  bossEncounterId: string;
+  checkpointId: string; // Evolution checkpoint reached before the boss
+  checkpointName: string;
 }
 
-export function getStartNode(): CampaignNode {
-  return CAMPAIGN_MAP.nodes[CAMPAIGN_MAP.startNodeId];
+export interface MapGenerationRules {
+  acts: ActRules[];
+  minLayerWidth: number;
+  maxLayerWidth: number;
+  nodeTypeWeights: Record<GeneratedNodeType, number>;
 }
+
+export const DEFAULT_MAP_RULES: MapGenerationRules = {
+  acts: [
+    {
+      layers: 4,
+      battleEncounterIds: ['electricSwarm', 'poisonSwarm', 'normalSwarm'],
+      eventIds: ['abandonedSupplies', 'rocketGrunt'],
+      bossEncounterId: 'giovanni',
+      checkpointId: 'firstEvolution',
+      checkpointName: 'Evolution Checkpoint',
+    },
+    {
+      layers: 4,
+      battleEncounterIds: ['venusaurClone', 'charizardClone', 'blastoiseClone'],
+      eventIds: ['abandonedSupplies', 'rocketGrunt', 'psychicEcho'], // Psychic Echo leads into the final fight
+      bossEncounterId: 'mewtwo',
+      checkpointId: 'secondEvolution',
+      checkpointName: 'Final Evolution',
+    },
+  ],
+  minLayerWidth: 2,
+  maxLayerWidth: 4,
+  nodeTypeWeights: {
+    battle: 5,
+    event: 2,
+    smith: 1,
+    purge: 1,
+  },
+};
+
+export const SERVICE_NODE_NAMES: Record<'smith' | 'purge', string> = {
+  smith: 'Lab Workshop',
+  purge: 'Recycling Room',
+};
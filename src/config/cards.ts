@@ -1,22 +1,48 @@
 import type { PokemonLine, PokemonId } from './pokemon';
+import type { PokemonType } from './pokemonTypes';
+
+// Keywords change where a card goes rather than what it does:
+// - exhaust: removed for the rest of the battle once played
+// - ethereal: removed for the rest of the battle if still in hand when the turn ends
+// - innate: always in the opening hand
+// - retain: stays in hand when the turn ends
+// - unplayable: can't be played; it just takes up room in the hand
+export type CardKeyword = 'exhaust' | 'ethereal' | 'innate' | 'retain' | 'unplayable';
+
+export const KEYWORD_DESCRIPTIONS: Record<CardKeyword, string> = {
+  exhaust: 'Removed for the rest of the battle when played.',
+  ethereal: 'Removed for the rest of the battle if still in hand at end of turn.',
+  innate: 'Starts every battle in the opening hand.',
+  retain: 'Stays in hand at end of turn.',
+  unplayable: 'Cannot be played.',
+};
 
 export type CardEffectType = 
   | 'damage'
   | 'heal'
   | 'block'
   | 'status'
-  | 'buff';
+  | 'buff'
+  | 'draw'
+  | 'gainMana'
+  | 'discard'
+  | 'exhaust'
+  | 'retain'
+  | 'swap'
+  | 'addCard';
 
-export type StatusType = 'poison' | 'burn' | 'freeze' | 'paralyze';
-export type BuffType = 'attackUp';
+// Behavior for each status and buff lives in config/statuses.ts
+export type StatusType = 'poison' | 'burn' | 'freeze' | 'paralyze' | 'weaken' | 'vulnerable';
+export type BuffType = 'attackUp' | 'defenseUp' | 'regen' | 'thorns' | 'focus';
 
 export interface DamageEffect {
   type: 'damage';
   amount: number;
   target: 'single' | 'all';
-  side: 'enemy' | 'ally';
+  side: 'enemy' | 'ally'; // Relative to the caster
 }
 
+// Heals, block and buffs always go to the caster's own side
 export interface HealEffect {
   type: 'heal';
   amount: number;
@@ -26,7 +52,7 @@ export interface HealEffect {
 export interface BlockEffect {
   type: 'block';
   amount: number;
-  target: 'self' | 'all';
+  target: 'self' | 'single' | 'all';
 }
 
 export interface StatusEffect {
@@ -34,25 +60,87 @@ export interface StatusEffect {
   status: StatusType;
   stacks: number;
   target: 'single' | 'all';
-  side: 'enemy' | 'ally';
+  side: 'enemy' | 'ally'; // Relative to the caster
 }
 
 export interface BuffEffect {
   type: 'buff';
   buff: BuffType;
   stacks: number;
-  target: 'self' | 'all';
+  target: 'self' | 'single' | 'all';
+}
+
+// Resource effects always act on the caster's own hand, piles and mana
+export interface DrawEffect {
+  type: 'draw';
+  amount: number;
+  target: 'self';
+}
+
+export interface GainManaEffect {
+  type: 'gainMana';
+  amount: number;
+  target: 'self';
+}
+
+export interface DiscardEffect {
+  type: 'discard';
+  amount: number; // Random cards from hand
+  target: 'self';
+}
+
+export interface ExhaustEffect {
+  type: 'exhaust';
+  amount: number; // Random cards from hand, removed for the rest of the battle
+  target: 'self';
+}
+
+export interface RetainEffect {
+  type: 'retain';
+  amount: number; // Cards kept in hand when the turn ends
+  target: 'self';
 }
 
-export type CardEffect = DamageEffect | HealEffect | BlockEffect | StatusEffect | BuffEffect;
+export interface SwapEffect {
+  type: 'swap'; // Move the caster to the other row
+  target: 'self';
+}
+
+export interface AddCardEffect {
+  type: 'addCard'; // Put copies of a card, usually an unplayable one, in the targets' discard piles
+  cardId: string;
+  count: number;
+  target: 'single' | 'all';
+  side: 'enemy' | 'ally'; // Relative to the caster
+}
+
+export type CardEffect =
+  | DamageEffect
+  | HealEffect
+  | BlockEffect
+  | StatusEffect
+  | BuffEffect
+  | DrawEffect
+  | GainManaEffect
+  | DiscardEffect
+  | ExhaustEffect
+  | RetainEffect
+  | SwapEffect
+  | AddCardEffect;
+
+// Melee cards can only target the front row of the other side while anyone in it is standing
+export type CardRange = 'melee' | 'ranged';
 
 export interface CardDefinition {
   id: string;
   name: string;
   cost: number;
-  pokemonLine: PokemonLine;
-  effect: CardEffect;
-  description: string;
+  pokemonLine: PokemonLine | 'enemy' | 'status'; // 'enemy' for moves only opposing Pokemon use, 'status' for cards added mid-battle
+  moveType?: PokemonType; // Scales damage by type effectiveness and STAB; untyped cards deal neutral damage
+  range?: CardRange; // Defaults to ranged
+  keywords?: CardKeyword[];
+  effects: CardEffect[]; // Resolved in order; the card's text is generated from them
+  description?: string; // Flavor text shown after the effects. Leave numbers to the effects so they can't drift.
 }
 
 // Card definitions for each Pokemon line
@@ -65,32 +153,37 @@ export const BULBASAUR_CARDS: CardDefinition[] = [
     name: 'Vine Whip',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
-    description: 'Deal 6 damage to a single enemy.',
+    moveType: 'grass',
+    effects: [{ type: 'damage', amount: 6, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_bulbasaur',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'poison_powder',
     name: 'Poison Powder',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of poison to a single enemy.',
+    moveType: 'poison',
+    effects: [{ type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'heal',
     name: 'Heal',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'heal', amount: 10, target: 'single' },
-    description: 'Heal 10 HP on a chosen ally.',
+    effects: [{ type: 'heal', amount: 10, target: 'single' }],
+  },
+  {
+    id: 'growth',
+    name: 'Growth',
+    cost: 1,
+    pokemonLine: 'bulbasaur',
+    effects: [{ type: 'draw', amount: 2, target: 'self' }],
   },
 ];
 
@@ -100,32 +193,30 @@ export const IVYSAUR_CARDS: CardDefinition[] = [
     name: 'Vine Whip',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
-    description: 'Deal 8 damage to a single enemy.',
+    moveType: 'grass',
+    effects: [{ type: 'damage', amount: 8, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_ivysaur',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'poison_powder_2',
     name: 'Poison Powder',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of poison to a single enemy.',
+    moveType: 'poison',
+    effects: [{ type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'heal_2',
     name: 'Heal',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'heal', amount: 10, target: 'single' },
-    description: 'Heal 10 HP on a chosen ally.',
+    effects: [{ type: 'heal', amount: 10, target: 'single' }],
   },
 ];
 
@@ -135,32 +226,30 @@ export const VENUSAUR_CARDS: CardDefinition[] = [
     name: 'Vine Whip',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
-    description: 'Deal 10 damage to a single enemy.',
+    moveType: 'grass',
+    effects: [{ type: 'damage', amount: 10, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_venusaur',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'poison_powder_3',
     name: 'Poison Powder',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of poison to a single enemy.',
+    moveType: 'poison',
+    effects: [{ type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'heal_3',
     name: 'Heal',
     cost: 2,
     pokemonLine: 'bulbasaur',
-    effect: { type: 'heal', amount: 10, target: 'single' },
-    description: 'Heal 10 HP on a chosen ally.',
+    effects: [{ type: 'heal', amount: 10, target: 'single' }],
   },
 ];
 
@@ -171,32 +260,51 @@ export const SQUIRTLE_CARDS: CardDefinition[] = [
     name: 'Water Gun',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
-    description: 'Deal 6 damage to a single enemy.',
+    moveType: 'water',
+    effects: [{ type: 'damage', amount: 6, target: 'single', side: 'enemy' }],
   },
   {
     id: 'shell_guard',
     name: 'Shell Guard',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'wide_guard',
     name: 'Wide Guard',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'all' },
-    description: 'Give 5 block to all allies.',
+    effects: [{ type: 'block', amount: 5, target: 'all' }],
   },
   {
     id: 'ice_beam_1',
     name: 'Ice Beam',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'status', status: 'freeze', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of freeze to a single enemy.',
+    moveType: 'ice',
+    effects: [
+      { type: 'damage', amount: 4, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'freeze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'withdraw',
+    name: 'Withdraw',
+    cost: 1,
+    pokemonLine: 'squirtle',
+    keywords: ['retain'],
+    effects: [{ type: 'block', amount: 8, target: 'self' }],
+  },
+  {
+    id: 'rain_dance',
+    name: 'Rain Dance',
+    cost: 1,
+    pokemonLine: 'squirtle',
+    effects: [
+      { type: 'block', amount: 3, target: 'self' },
+      { type: 'retain', amount: 2, target: 'self' },
+    ],
   },
 ];
 
@@ -206,32 +314,33 @@ export const WARTORTLE_CARDS: CardDefinition[] = [
     name: 'Water Gun',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
-    description: 'Deal 8 damage to a single enemy.',
+    moveType: 'water',
+    effects: [{ type: 'damage', amount: 8, target: 'single', side: 'enemy' }],
   },
   {
     id: 'shell_guard_2',
     name: 'Shell Guard',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'wide_guard_2',
     name: 'Wide Guard',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'all' },
-    description: 'Give 5 block to all allies.',
+    effects: [{ type: 'block', amount: 5, target: 'all' }],
   },
   {
     id: 'ice_beam_2',
     name: 'Ice Beam',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'status', status: 'freeze', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of freeze to a single enemy.',
+    moveType: 'ice',
+    effects: [
+      { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'freeze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
   },
 ];
 
@@ -241,32 +350,33 @@ export const BLASTOISE_CARDS: CardDefinition[] = [
     name: 'Water Gun',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
-    description: 'Deal 10 damage to a single enemy.',
+    moveType: 'water',
+    effects: [{ type: 'damage', amount: 10, target: 'single', side: 'enemy' }],
   },
   {
     id: 'shell_guard_3',
     name: 'Shell Guard',
     cost: 1,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'wide_guard_3',
     name: 'Wide Guard',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'block', amount: 5, target: 'all' },
-    description: 'Give 5 block to all allies.',
+    effects: [{ type: 'block', amount: 5, target: 'all' }],
   },
   {
     id: 'ice_beam_3',
     name: 'Ice Beam',
     cost: 2,
     pokemonLine: 'squirtle',
-    effect: { type: 'status', status: 'freeze', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of freeze to a single enemy.',
+    moveType: 'ice',
+    effects: [
+      { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'freeze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
   },
 ];
 
@@ -277,32 +387,54 @@ export const CHARMANDER_CARDS: CardDefinition[] = [
     name: 'Ember',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
-    description: 'Deal 6 damage to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'damage', amount: 6, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_charmander',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'burn_1',
     name: 'Burn',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of burn to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'flamethrower_1',
     name: 'Flamethrower',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 6, target: 'all', side: 'enemy' },
-    description: 'Deal 6 damage to all enemies.',
+    moveType: 'fire',
+    effects: [
+      { type: 'damage', amount: 6, target: 'all', side: 'enemy' },
+      { type: 'status', status: 'burn', stacks: 1, target: 'all', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'overheat',
+    name: 'Overheat',
+    cost: 1,
+    pokemonLine: 'charmander',
+    moveType: 'fire',
+    keywords: ['exhaust'],
+    effects: [{ type: 'damage', amount: 14, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'flare_blitz',
+    name: 'Flare Blitz',
+    cost: 1,
+    pokemonLine: 'charmander',
+    moveType: 'fire',
+    effects: [
+      { type: 'damage', amount: 12, target: 'single', side: 'enemy' },
+      { type: 'exhaust', amount: 1, target: 'self' },
+    ],
   },
 ];
 
@@ -312,32 +444,34 @@ export const CHARMELEON_CARDS: CardDefinition[] = [
     name: 'Ember',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
-    description: 'Deal 8 damage to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'damage', amount: 8, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_charmeleon',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'burn_2',
     name: 'Burn',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of burn to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'flamethrower_2',
     name: 'Flamethrower',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 8, target: 'all', side: 'enemy' },
-    description: 'Deal 8 damage to all enemies.',
+    moveType: 'fire',
+    effects: [
+      { type: 'damage', amount: 8, target: 'all', side: 'enemy' },
+      { type: 'status', status: 'burn', stacks: 1, target: 'all', side: 'enemy' },
+    ],
   },
 ];
 
@@ -347,32 +481,34 @@ export const CHARIZARD_CARDS: CardDefinition[] = [
     name: 'Ember',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
-    description: 'Deal 10 damage to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'damage', amount: 10, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_charizard',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'charmander',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'burn_3',
     name: 'Burn',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of burn to a single enemy.',
+    moveType: 'fire',
+    effects: [{ type: 'status', status: 'burn', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'flamethrower_3',
     name: 'Flamethrower',
     cost: 2,
     pokemonLine: 'charmander',
-    effect: { type: 'damage', amount: 10, target: 'all', side: 'enemy' },
-    description: 'Deal 10 damage to all enemies.',
+    moveType: 'fire',
+    effects: [
+      { type: 'damage', amount: 10, target: 'all', side: 'enemy' },
+      { type: 'status', status: 'burn', stacks: 1, target: 'all', side: 'enemy' },
+    ],
   },
 ];
 
@@ -383,32 +519,68 @@ export const PIKACHU_CARDS: CardDefinition[] = [
     name: 'Thundershock',
     cost: 1,
     pokemonLine: 'pikachu',
-    effect: { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
-    description: 'Deal 6 damage to a single enemy.',
+    moveType: 'electric',
+    effects: [{ type: 'damage', amount: 6, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_pikachu',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'pikachu',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'thunder_wave',
     name: 'Thunder Wave',
     cost: 2,
     pokemonLine: 'pikachu',
-    effect: { type: 'status', status: 'paralyze', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of paralyze to a single enemy.',
+    moveType: 'electric',
+    effects: [{ type: 'status', status: 'paralyze', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'thunderbolt_1',
     name: 'Thunderbolt',
     cost: 2,
     pokemonLine: 'pikachu',
-    effect: { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
-    description: 'Deal 10 damage to a single enemy.',
+    moveType: 'electric',
+    effects: [
+      { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'paralyze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'agility',
+    name: 'Agility',
+    cost: 0,
+    pokemonLine: 'pikachu',
+    effects: [{ type: 'swap', target: 'self' }],
+  },
+  {
+    id: 'quick_attack',
+    name: 'Quick Attack',
+    cost: 0,
+    pokemonLine: 'pikachu',
+    moveType: 'normal',
+    keywords: ['innate'],
+    effects: [{ type: 'damage', amount: 4, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'charge',
+    name: 'Charge',
+    cost: 0,
+    pokemonLine: 'pikachu',
+    effects: [{ type: 'gainMana', amount: 1, target: 'self' }],
+  },
+  {
+    id: 'wild_charge',
+    name: 'Wild Charge',
+    cost: 1,
+    pokemonLine: 'pikachu',
+    moveType: 'electric',
+    effects: [
+      { type: 'damage', amount: 9, target: 'single', side: 'enemy' },
+      { type: 'discard', amount: 1, target: 'self' },
+    ],
   },
 ];
 
@@ -418,32 +590,318 @@ export const RAICHU_CARDS: CardDefinition[] = [
     name: 'Thundershock',
     cost: 1,
     pokemonLine: 'pikachu',
-    effect: { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
-    description: 'Deal 8 damage to a single enemy.',
+    moveType: 'electric',
+    effects: [{ type: 'damage', amount: 8, target: 'single', side: 'enemy' }],
   },
   {
     id: 'defend_raichu',
     name: 'Defend',
     cost: 1,
     pokemonLine: 'pikachu',
-    effect: { type: 'block', amount: 5, target: 'self' },
-    description: 'Gain 5 block.',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
   },
   {
     id: 'thunder_wave_2',
     name: 'Thunder Wave',
     cost: 2,
     pokemonLine: 'pikachu',
-    effect: { type: 'status', status: 'paralyze', stacks: 2, target: 'single', side: 'enemy' },
-    description: 'Apply 2 stacks of paralyze to a single enemy.',
+    moveType: 'electric',
+    effects: [{ type: 'status', status: 'paralyze', stacks: 2, target: 'single', side: 'enemy' }],
   },
   {
     id: 'thunderbolt_2',
     name: 'Thunderbolt',
     cost: 2,
     pokemonLine: 'pikachu',
-    effect: { type: 'damage', amount: 12, target: 'single', side: 'enemy' },
-    description: 'Deal 12 damage to a single enemy.',
+    moveType: 'electric',
+    effects: [
+      { type: 'damage', amount: 12, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'paralyze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+];
+
+// Moves for opposing Pokemon - never offered as rewards
+export const ENEMY_CARDS: CardDefinition[] = [
+  {
+    id: 'tackle',
+    name: 'Tackle',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [{ type: 'damage', amount: 5, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'harden',
+    name: 'Harden',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'block', amount: 5, target: 'self' }],
+  },
+  {
+    id: 'bite',
+    name: 'Bite',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [{ type: 'damage', amount: 7, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'hyper_fang',
+    name: 'Hyper Fang',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [{ type: 'damage', amount: 12, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'leech_life',
+    name: 'Leech Life',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'bug',
+    range: 'melee',
+    effects: [
+      { type: 'damage', amount: 4, target: 'single', side: 'enemy' },
+      { type: 'buff', buff: 'regen', stacks: 1, target: 'self' },
+    ],
+  },
+  {
+    id: 'supersonic',
+    name: 'Supersonic',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    effects: [{ type: 'status', status: 'weaken', stacks: 2, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'sludge',
+    name: 'Sludge',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'poison',
+    effects: [
+      { type: 'damage', amount: 6, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'poison', stacks: 2, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'poison_gas',
+    name: 'Poison Gas',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'poison',
+    effects: [{ type: 'status', status: 'poison', stacks: 2, target: 'all', side: 'enemy' }],
+  },
+  {
+    id: 'acid_armor',
+    name: 'Acid Armor',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'block', amount: 8, target: 'self' }],
+  },
+  {
+    id: 'spark',
+    name: 'Spark',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'electric',
+    effects: [{ type: 'damage', amount: 5, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'zap_cannon',
+    name: 'Zap Cannon',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'electric',
+    effects: [
+      { type: 'damage', amount: 9, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'paralyze', stacks: 2, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'iron_defense',
+    name: 'Iron Defense',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'block', amount: 7, target: 'self' }],
+  },
+  {
+    id: 'fury_swipes',
+    name: 'Fury Swipes',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [
+      { type: 'damage', amount: 3, target: 'single', side: 'enemy' },
+      { type: 'damage', amount: 3, target: 'single', side: 'enemy' },
+      { type: 'damage', amount: 3, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'slash',
+    name: 'Slash',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [{ type: 'damage', amount: 11, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'nasty_plot',
+    name: 'Nasty Plot',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'buff', buff: 'attackUp', stacks: 2, target: 'self' }],
+  },
+  {
+    id: 'horn_attack',
+    name: 'Horn Attack',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [{ type: 'damage', amount: 7, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'earthquake',
+    name: 'Earthquake',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'ground',
+    effects: [{ type: 'damage', amount: 7, target: 'all', side: 'enemy' }],
+  },
+  {
+    id: 'poison_sting',
+    name: 'Poison Sting',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'poison',
+    range: 'melee',
+    effects: [
+      { type: 'damage', amount: 4, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'poison', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'body_slam',
+    name: 'Body Slam',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    range: 'melee',
+    effects: [
+      { type: 'damage', amount: 10, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'paralyze', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'confusion',
+    name: 'Confusion',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'psychic',
+    effects: [{ type: 'damage', amount: 8, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'psychic',
+    name: 'Psychic',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'psychic',
+    effects: [
+      { type: 'damage', amount: 14, target: 'single', side: 'enemy' },
+      { type: 'status', status: 'weaken', stacks: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+  {
+    id: 'psywave',
+    name: 'Psywave',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'psychic',
+    effects: [{ type: 'damage', amount: 8, target: 'all', side: 'enemy' }],
+  },
+  {
+    id: 'barrier',
+    name: 'Barrier',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'block', amount: 10, target: 'self' }],
+  },
+  {
+    id: 'helping_hand',
+    name: 'Helping Hand',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'buff', buff: 'attackUp', stacks: 2, target: 'single' }],
+  },
+  {
+    id: 'safeguard',
+    name: 'Safeguard',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'block', amount: 8, target: 'single' }],
+  },
+  {
+    id: 'leer',
+    name: 'Leer',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    effects: [{ type: 'status', status: 'vulnerable', stacks: 2, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'focus_energy',
+    name: 'Focus Energy',
+    cost: 1,
+    pokemonLine: 'enemy',
+    effects: [{ type: 'buff', buff: 'focus', stacks: 2, target: 'self' }],
+  },
+  {
+    id: 'confuse_ray',
+    name: 'Confuse Ray',
+    cost: 1,
+    pokemonLine: 'enemy',
+    moveType: 'normal',
+    effects: [{ type: 'addCard', cardId: 'dazed', count: 2, target: 'single', side: 'enemy' }],
+  },
+  {
+    id: 'gunk_shot',
+    name: 'Gunk Shot',
+    cost: 2,
+    pokemonLine: 'enemy',
+    moveType: 'poison',
+    effects: [
+      { type: 'damage', amount: 8, target: 'single', side: 'enemy' },
+      { type: 'addCard', cardId: 'gunk', count: 1, target: 'single', side: 'enemy' },
+    ],
+  },
+];
+
+// Unplayable cards that clog a Pokemon's hand when drawn
+export const STATUS_CARDS: CardDefinition[] = [
+  {
+    id: 'dazed',
+    name: 'Dazed',
+    cost: 0,
+    pokemonLine: 'status',
+    keywords: ['unplayable', 'ethereal'],
+    effects: [],
+    description: 'Does nothing.',
+  },
+  {
+    id: 'gunk',
+    name: 'Gunk',
+    cost: 0,
+    pokemonLine: 'status',
+    keywords: ['unplayable'],
+    effects: [],
+    description: 'Does nothing.',
   },
 ];
 
@@ -516,19 +974,19 @@ export function getStarterDeck(pokemonId: PokemonId): string[] {
       'thunder_wave_2', 'thunder_wave_2',
       'thunderbolt_2',
     ],
-    // Enemy Pokemon decks (simple for prototype)
-    magnemite: ['thundershock_1', 'thundershock_1', 'thundershock_1', 'defend_pikachu', 'defend_pikachu'],
-    magneton: ['thunderbolt_1', 'thunderbolt_1', 'thunder_wave', 'defend_pikachu', 'defend_pikachu'],
-    zubat: ['thundershock_1', 'thundershock_1', 'defend_pikachu'],
-    grimer: ['poison_powder', 'poison_powder', 'defend_bulbasaur'],
-    muk: ['poison_powder', 'poison_powder', 'poison_powder', 'defend_bulbasaur', 'defend_bulbasaur'],
-    rattata: ['thundershock_1', 'thundershock_1', 'defend_pikachu'],
-    raticate: ['thunderbolt_1', 'thunderbolt_1', 'defend_pikachu', 'defend_pikachu'],
-    persian: ['thunderbolt_1', 'thunderbolt_1', 'thunderbolt_1', 'defend_pikachu', 'defend_pikachu'],
-    rhydon: ['thunderbolt_1', 'thunderbolt_1', 'defend_pikachu', 'defend_pikachu', 'defend_pikachu'],
-    nidoqueen: ['poison_powder', 'poison_powder', 'poison_powder', 'defend_bulbasaur', 'defend_bulbasaur'],
-    nidoking: ['poison_powder', 'poison_powder', 'thunderbolt_1', 'defend_pikachu', 'defend_pikachu'],
-    mewtwo: ['thunderbolt_1', 'thunderbolt_1', 'thunderbolt_1', 'flamethrower_1', 'flamethrower_1', 'defend_pikachu'],
+    // Enemy Pokemon decks
+    magnemite: ['spark', 'spark', 'spark', 'iron_defense', 'iron_defense'],
+    magneton: ['zap_cannon', 'zap_cannon', 'spark', 'iron_defense', 'iron_defense'],
+    zubat: ['leech_life', 'leech_life', 'supersonic', 'confuse_ray'],
+    grimer: ['sludge', 'poison_gas', 'acid_armor'],
+    muk: ['sludge', 'gunk_shot', 'poison_gas', 'acid_armor', 'acid_armor'],
+    rattata: ['tackle', 'bite', 'harden', 'leer'],
+    raticate: ['hyper_fang', 'hyper_fang', 'bite', 'harden', 'helping_hand'],
+    persian: ['slash', 'slash', 'fury_swipes', 'nasty_plot', 'focus_energy', 'harden'],
+    rhydon: ['earthquake', 'horn_attack', 'horn_attack', 'harden', 'harden'],
+    nidoqueen: ['body_slam', 'poison_sting', 'poison_sting', 'harden', 'safeguard'],
+    nidoking: ['earthquake', 'horn_attack', 'poison_sting', 'harden', 'harden'],
+    mewtwo: ['psychic', 'psychic', 'psywave', 'confusion', 'confusion', 'barrier'],
   };
   return decks[pokemonId] || [];
 }
@@ -546,8 +1004,69 @@ export const ALL_CARDS: CardDefinition[] = [
   ...CHARIZARD_CARDS,
   ...PIKACHU_CARDS,
   ...RAICHU_CARDS,
+  ...ENEMY_CARDS,
+  ...STATUS_CARDS,
 ];
 
 export function getCardDefinition(cardId: string): CardDefinition | undefined {
   return ALL_CARDS.find(card => card.id === cardId);
 }
+
+export function hasKeyword(cardId: string, keyword: CardKeyword): boolean {
+  return getCardDefinition(cardId)?.keywords?.includes(keyword) ?? false;
+}
+
+// Cards offered after a victory, by the Pokemon's current evolution stage
+const REWARD_POOLS: Partial<Record<PokemonId, CardDefinition[]>> = {
+  bulbasaur: BULBASAUR_CARDS,
+  ivysaur: IVYSAUR_CARDS,
+  venusaur: VENUSAUR_CARDS,
+  squirtle: SQUIRTLE_CARDS,
+  wartortle: WARTORTLE_CARDS,
+  blastoise: BLASTOISE_CARDS,
+  charmander: CHARMANDER_CARDS,
+  charmeleon: CHARMELEON_CARDS,
+  charizard: CHARIZARD_CARDS,
+  pikachu: PIKACHU_CARDS,
+  raichu: RAICHU_CARDS,
+};
+
+export function getRewardPool(pokemonId: PokemonId): string[] {
+  return (REWARD_POOLS[pokemonId] || []).map(card => card.id);
+}
+
+// Each card's counterpart at the next evolution stage
+export const CARD_UPGRADES: Record<string, string> = {
+  vine_whip_1: 'vine_whip_2',
+  vine_whip_2: 'vine_whip_3',
+  defend_bulbasaur: 'defend_ivysaur',
+  defend_ivysaur: 'defend_venusaur',
+  poison_powder: 'poison_powder_2',
+  poison_powder_2: 'poison_powder_3',
+  heal: 'heal_2',
+  heal_2: 'heal_3',
+  water_gun_1: 'water_gun_2',
+  water_gun_2: 'water_gun_3',
+  shell_guard: 'shell_guard_2',
+  shell_guard_2: 'shell_guard_3',
+  wide_guard: 'wide_guard_2',
+  wide_guard_2: 'wide_guard_3',
+  ice_beam_1: 'ice_beam_2',
+  ice_beam_2: 'ice_beam_3',
+  ember_1: 'ember_2',
+  ember_2: 'ember_3',
+  defend_charmander: 'defend_charmeleon',
+  defend_charmeleon: 'defend_charizard',
+  burn_1: 'burn_2',
+  burn_2: 'burn_3',
+  flamethrower_1: 'flamethrower_2',
+  flamethrower_2: 'flamethrower_3',
+  thundershock_1: 'thundershock_2',
+  defend_pikachu: 'defend_raichu',
+  thunder_wave: 'thunder_wave_2',
+  thunderbolt_1: 'thunderbolt_2',
+};
+
+export function getUpgradedCardId(cardId: string): string | undefined {
+  return CARD_UPGRADES[cardId];
+}
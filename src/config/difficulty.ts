@@ -0,0 +1,46 @@
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+export interface DifficultySettings {
+  name: string;
+  description: string;
+  searchDepth: number; // Cards per turn the enemy AI plans ahead; 0 plays greedily without searching
+  searchWidth: number; // Most promising plays explored further at each step of the search
+  searchBudget: number; // Most card plays simulated while planning one turn, so planning can't stall the game
+}
+
+// Easiest first
+export const DIFFICULTIES: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    name: 'Easy',
+    description: 'Enemies play their strongest-looking cards at whoever is in front.',
+    searchDepth: 0,
+    searchWidth: 0,
+    searchBudget: 0,
+  },
+  normal: {
+    name: 'Normal',
+    description: 'Enemies plan a couple of cards ahead, focusing weakened targets.',
+    searchDepth: 2,
+    searchWidth: 4,
+    searchBudget: 60,
+  },
+  hard: {
+    name: 'Hard',
+    description: 'Enemies search their whole turn for lethal, blocks and heals.',
+    searchDepth: 4,
+    searchWidth: 6,
+    searchBudget: 200,
+  },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+export function getDifficultySettings(difficulty: Difficulty): DifficultySettings {
+  return DIFFICULTIES[difficulty];
+}
+
+// The harder of two difficulties, e.g. a run's difficulty and a boss encounter's minimum
+export function getHarderDifficulty(a: Difficulty, b: Difficulty): Difficulty {
+  const order = Object.keys(DIFFICULTIES) as Difficulty[];
+  return order.indexOf(a) >= order.indexOf(b) ? a : b;
+}
@@ -1,4 +1,5 @@
 import type { PokemonId } from './pokemon';
+import type { Difficulty } from './difficulty';
 
 export type EncounterType = 'battle' | 'event' | 'boss';
 
@@ -11,6 +12,7 @@ export interface EncounterDefinition {
   name: string;
   type: EncounterType;
   enemies: EncounterEnemy[];
+  minDifficulty?: Difficulty; // Enemy AI plays at least this well, whatever the run's difficulty
 }
 
 export const ENCOUNTERS: Record<string, EncounterDefinition> = {
@@ -48,11 +50,22 @@ export const ENCOUNTERS: Record<string, EncounterDefinition> = {
       { pokemonId: 'rattata' },
     ],
   },
+  // Optional event fights
+  rocketGrunt: {
+    id: 'rocketGrunt',
+    name: 'Rocket Grunt',
+    type: 'event',
+    enemies: [
+      { pokemonId: 'raticate' },
+      { pokemonId: 'zubat' },
+    ],
+  },
   // Act 1 - Boss
   giovanni: {
     id: 'giovanni',
     name: 'Giovanni',
     type: 'boss',
+    minDifficulty: 'hard',
     enemies: [
       { pokemonId: 'persian' },
       { pokemonId: 'rhydon' },
@@ -99,6 +112,7 @@ export const ENCOUNTERS: Record<string, EncounterDefinition> = {
     id: 'mewtwo',
     name: 'Mewtwo',
     type: 'boss',
+    minDifficulty: 'hard',
     enemies: [
       { pokemonId: 'mewtwo' },
     ],
@@ -0,0 +1,103 @@
+// Scripted event nodes: narrative text plus choices with conditions and outcomes
+
+export type EventCondition =
+  | { type: 'minCurrency'; amount: number } // Party has at least this much money
+  | { type: 'minHp'; amount: number }; // Every party member has at least this much HP
+
+export type EventOutcome =
+  | { type: 'heal'; amount: number } // Every party member, up to max HP
+  | { type: 'loseHp'; amount: number } // Every party member, never below 1 HP
+  | { type: 'gainCard'; cardId?: string } // Every party member; no cardId means a random card from their reward pool
+  | { type: 'currency'; amount: number } // Negative to lose money
+  | { type: 'bonus'; stat: 'maxHp' | 'maxMana' | 'manaRegen' | 'speed'; amount: number } // Every party member, for the rest of the run
+  | { type: 'fight'; encounterId: string }; // Starts a battle once the other outcomes apply
+
+export interface EventChoice {
+  text: string;
+  resultText: string; // Shown after the choice is made
+  conditions?: EventCondition[]; // All must hold for the choice to be available
+  outcomes: EventOutcome[];
+}
+
+export interface EventDefinition {
+  id: string;
+  name: string;
+  text: string;
+  choices: EventChoice[];
+}
+
+export const EVENTS: Record<string, EventDefinition> = {
+  abandonedSupplies: {
+    id: 'abandonedSupplies',
+    name: 'Abandoned Supplies',
+    text: 'A storage room stands open. Potions line one shelf, and a stack of research notes sits on the desk beside a dropped wallet.',
+    choices: [
+      {
+        text: 'Use the Potions (heal 15 HP)',
+        resultText: 'Your Pokemon feel refreshed.',
+        outcomes: [{ type: 'heal', amount: 15 }],
+      },
+      {
+        text: 'Study the research notes (gain a card)',
+        resultText: 'The notes describe a technique your Pokemon can learn.',
+        outcomes: [{ type: 'gainCard' }],
+      },
+      {
+        text: 'Take the wallet (gain ₽60)',
+        resultText: 'Team Rocket won\'t miss it.',
+        outcomes: [{ type: 'currency', amount: 60 }],
+      },
+      {
+        text: 'Drink the HP Up (+5 max HP)',
+        resultText: 'Your Pokemon feel sturdier than before.',
+        outcomes: [{ type: 'bonus', stat: 'maxHp', amount: 5 }],
+      },
+    ],
+  },
+  rocketGrunt: {
+    id: 'rocketGrunt',
+    name: 'Rocket Grunt',
+    text: 'A Team Rocket grunt blocks the exit. "Nobody gets out of here for free!"',
+    choices: [
+      {
+        text: 'Pay the grunt off (lose ₽50)',
+        resultText: 'The grunt pockets the money and waves you through.',
+        conditions: [{ type: 'minCurrency', amount: 50 }],
+        outcomes: [{ type: 'currency', amount: -50 }],
+      },
+      {
+        text: 'Battle the grunt',
+        resultText: 'The grunt sends out their Pokemon!',
+        outcomes: [{ type: 'fight', encounterId: 'rocketGrunt' }],
+      },
+      {
+        text: 'Slip past through the vents (lose 8 HP)',
+        resultText: 'Your Pokemon scrape through the cramped vents.',
+        conditions: [{ type: 'minHp', amount: 8 }],
+        outcomes: [{ type: 'loseHp', amount: 8 }],
+      },
+    ],
+  },
+  psychicEcho: {
+    id: 'psychicEcho',
+    name: 'Psychic Echo',
+    text: 'Waves of psychic energy pulse from the chamber ahead. Your Pokemon could rest here, or try to draw on the power.',
+    choices: [
+      {
+        text: 'Rest (heal 25 HP)',
+        resultText: 'Your Pokemon recover before the final fight.',
+        outcomes: [{ type: 'heal', amount: 25 }],
+      },
+      {
+        text: 'Absorb the energy (lose 10 HP, gain a card)',
+        resultText: 'It hurts, but your Pokemon learn something new.',
+        conditions: [{ type: 'minHp', amount: 10 }],
+        outcomes: [{ type: 'loseHp', amount: 10 }, { type: 'gainCard' }],
+      },
+    ],
+  },
+};
+
+export function getEvent(eventId: string): EventDefinition | undefined {
+  return EVENTS[eventId];
+}
@@ -1,3 +1,5 @@
+import type { PokemonType } from './pokemonTypes';
+
 export type PokemonId = 
   | 'bulbasaur' | 'ivysaur' | 'venusaur'
   | 'squirtle' | 'wartortle' | 'blastoise'
@@ -12,6 +14,9 @@ export type PokemonId =
 
 export type PokemonLine = 'bulbasaur' | 'squirtle' | 'charmander' | 'pikachu';
 
+// Melee attacks can only reach the front row while anyone in it is standing
+export type FormationRow = 'front' | 'back';
+
 export interface PokemonStats {
   id: PokemonId;
   name: string;
@@ -19,6 +24,8 @@ export interface PokemonStats {
   maxMana: number;
   manaRegen: number;
   speed: number;
+  types: PokemonType[]; // One or two
+  row: FormationRow; // Where it lines up when a battle starts
   pokemonLine?: PokemonLine; // Only for player Pokemon
 }
 
@@ -33,6 +40,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   bulbasaur: {
     id: 'bulbasaur',
     name: 'Bulbasaur',
+    types: ['grass', 'poison'],
+    row: 'back',
     maxHp: 60,
     maxMana: 3,
     manaRegen: 3,
@@ -42,6 +51,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   ivysaur: {
     id: 'ivysaur',
     name: 'Ivysaur',
+    types: ['grass', 'poison'],
+    row: 'back',
     maxHp: 80,
     maxMana: 4,
     manaRegen: 4,
@@ -51,6 +62,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   venusaur: {
     id: 'venusaur',
     name: 'Venusaur',
+    types: ['grass', 'poison'],
+    row: 'back',
     maxHp: 100,
     maxMana: 5,
     manaRegen: 5,
@@ -61,6 +74,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   squirtle: {
     id: 'squirtle',
     name: 'Squirtle',
+    types: ['water'],
+    row: 'front',
     maxHp: 70,
     maxMana: 3,
     manaRegen: 3,
@@ -70,6 +85,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   wartortle: {
     id: 'wartortle',
     name: 'Wartortle',
+    types: ['water'],
+    row: 'front',
     maxHp: 90,
     maxMana: 4,
     manaRegen: 4,
@@ -79,6 +96,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   blastoise: {
     id: 'blastoise',
     name: 'Blastoise',
+    types: ['water'],
+    row: 'front',
     maxHp: 110,
     maxMana: 5,
     manaRegen: 5,
@@ -89,6 +108,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   charmander: {
     id: 'charmander',
     name: 'Charmander',
+    types: ['fire'],
+    row: 'back',
     maxHp: 55,
     maxMana: 3,
     manaRegen: 3,
@@ -98,6 +119,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   charmeleon: {
     id: 'charmeleon',
     name: 'Charmeleon',
+    types: ['fire'],
+    row: 'back',
     maxHp: 75,
     maxMana: 4,
     manaRegen: 4,
@@ -107,6 +130,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   charizard: {
     id: 'charizard',
     name: 'Charizard',
+    types: ['fire', 'flying'],
+    row: 'back',
     maxHp: 95,
     maxMana: 5,
     manaRegen: 5,
@@ -117,6 +142,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   pikachu: {
     id: 'pikachu',
     name: 'Pikachu',
+    types: ['electric'],
+    row: 'back',
     maxHp: 50,
     maxMana: 3,
     manaRegen: 3,
@@ -126,6 +153,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   raichu: {
     id: 'raichu',
     name: 'Raichu',
+    types: ['electric'],
+    row: 'back',
     maxHp: 70,
     maxMana: 4,
     manaRegen: 4,
@@ -136,6 +165,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   magnemite: {
     id: 'magnemite',
     name: 'Magnemite',
+    types: ['electric'],
+    row: 'back',
     maxHp: 40,
     maxMana: 2,
     manaRegen: 2,
@@ -144,6 +175,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   magneton: {
     id: 'magneton',
     name: 'Magneton',
+    types: ['electric'],
+    row: 'back',
     maxHp: 70,
     maxMana: 3,
     manaRegen: 3,
@@ -153,6 +186,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   zubat: {
     id: 'zubat',
     name: 'Zubat',
+    types: ['poison', 'flying'],
+    row: 'back',
     maxHp: 35,
     maxMana: 2,
     manaRegen: 2,
@@ -161,6 +196,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   grimer: {
     id: 'grimer',
     name: 'Grimer',
+    types: ['poison'],
+    row: 'front',
     maxHp: 50,
     maxMana: 2,
     manaRegen: 2,
@@ -169,6 +206,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   muk: {
     id: 'muk',
     name: 'Muk',
+    types: ['poison'],
+    row: 'front',
     maxHp: 80,
     maxMana: 3,
     manaRegen: 3,
@@ -178,6 +217,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   rattata: {
     id: 'rattata',
     name: 'Rattata',
+    types: ['normal'],
+    row: 'front',
     maxHp: 30,
     maxMana: 2,
     manaRegen: 2,
@@ -186,6 +227,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   raticate: {
     id: 'raticate',
     name: 'Raticate',
+    types: ['normal'],
+    row: 'front',
     maxHp: 65,
     maxMana: 3,
     manaRegen: 3,
@@ -195,6 +238,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   persian: {
     id: 'persian',
     name: 'Persian',
+    types: ['normal'],
+    row: 'front',
     maxHp: 85,
     maxMana: 4,
     manaRegen: 4,
@@ -203,6 +248,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   rhydon: {
     id: 'rhydon',
     name: 'Rhydon',
+    types: ['ground', 'rock'],
+    row: 'front',
     maxHp: 120,
     maxMana: 3,
     manaRegen: 3,
@@ -211,6 +258,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   nidoqueen: {
     id: 'nidoqueen',
     name: 'Nidoqueen',
+    types: ['poison', 'ground'],
+    row: 'front',
     maxHp: 100,
     maxMana: 4,
     manaRegen: 4,
@@ -219,6 +268,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   nidoking: {
     id: 'nidoking',
     name: 'Nidoking',
+    types: ['poison', 'ground'],
+    row: 'front',
     maxHp: 95,
     maxMana: 4,
     manaRegen: 4,
@@ -228,6 +279,8 @@ export const POKEMON_STATS: Record<PokemonId, PokemonStats> = {
   mewtwo: {
     id: 'mewtwo',
     name: 'Mewtwo',
+    types: ['psychic'],
+    row: 'back',
     maxHp: 200,
     maxMana: 6,
     manaRegen: 6,
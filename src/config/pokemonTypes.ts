@@ -0,0 +1,52 @@
+export type PokemonType =
+  | 'normal' | 'fire' | 'water' | 'grass' | 'electric' | 'ice'
+  | 'poison' | 'ground' | 'flying' | 'psychic' | 'bug' | 'rock';
+
+export const SUPER_EFFECTIVE = 2;
+export const NOT_VERY_EFFECTIVE = 0.5;
+export const STAB_MULTIPLIER = 1.25; // Same-type attack bonus, for moves that share a type with their user
+
+// Attacking type -> defending types it's super or not very effective against. There are no
+// immunities: matchups that would be immune are not very effective, so no card is ever dead.
+const TYPE_CHART: Record<PokemonType, { strong: PokemonType[]; weak: PokemonType[] }> = {
+  normal: { strong: [], weak: ['rock'] },
+  fire: { strong: ['grass', 'ice', 'bug'], weak: ['fire', 'water', 'rock'] },
+  water: { strong: ['fire', 'ground', 'rock'], weak: ['water', 'grass'] },
+  grass: { strong: ['water', 'ground', 'rock'], weak: ['fire', 'grass', 'poison', 'flying', 'bug'] },
+  electric: { strong: ['water', 'flying'], weak: ['electric', 'grass', 'ground'] },
+  ice: { strong: ['grass', 'ground', 'flying'], weak: ['fire', 'water', 'ice'] },
+  poison: { strong: ['grass'], weak: ['poison', 'ground', 'rock'] },
+  ground: { strong: ['fire', 'electric', 'poison', 'rock'], weak: ['grass', 'bug', 'flying'] },
+  flying: { strong: ['grass', 'bug'], weak: ['electric', 'rock'] },
+  psychic: { strong: ['poison'], weak: ['psychic'] },
+  bug: { strong: ['grass', 'psychic'], weak: ['fire', 'poison', 'flying'] },
+  rock: { strong: ['fire', 'ice', 'flying', 'bug'], weak: ['ground'] },
+};
+
+export const TYPE_COLORS: Record<PokemonType, string> = {
+  normal: '#a8a878',
+  fire: '#f08030',
+  water: '#6890f0',
+  grass: '#78c850',
+  electric: '#f8d030',
+  ice: '#98d8d8',
+  poison: '#a040a0',
+  ground: '#e0c068',
+  flying: '#a890f0',
+  psychic: '#f85888',
+  bug: '#a8b820',
+  rock: '#b8a038',
+};
+
+// Multiplier for a move against a defender; dual types multiply together
+export function getTypeEffectiveness(moveType: PokemonType, defenderTypes: PokemonType[]): number {
+  const { strong, weak } = TYPE_CHART[moveType];
+  return defenderTypes.reduce(
+    (multiplier, type) => multiplier * (strong.includes(type) ? SUPER_EFFECTIVE : weak.includes(type) ? NOT_VERY_EFFECTIVE : 1),
+    1
+  );
+}
+
+export function getStabMultiplier(moveType: PokemonType, attackerTypes: PokemonType[]): number {
+  return attackerTypes.includes(moveType) ? STAB_MULTIPLIER : 1;
+}
@@ -0,0 +1,143 @@
+import type { StatusType, BuffType } from './cards';
+import type { PokemonCombatState } from '../engine/types';
+
+// How an effect's stacks wear off at the end of the afflicted Pokemon's turn
+export type DecayRule =
+  | 'never' // Lasts for the rest of the battle
+  | 'stack' // Loses 1 stack
+  | 'expire' // Removed entirely
+  | 'round'; // Loses 1 stack when a new round starts, once its turn order is set
+
+export interface TurnStartResult {
+  pokemon: PokemonCombatState;
+  skipTurn?: boolean;
+}
+
+export interface IncomingDamage {
+  amount: number; // Damage before block
+  retaliation: number; // Damage dealt back to the attacker
+}
+
+export const CRITICAL_MULTIPLIER = 1.5;
+
+// Lifecycle hooks receive the Pokemon holding the effect and its current stacks
+export interface EffectDefinition {
+  name: string; // Short label for the UI
+  color: string;
+  description: string;
+  decay: DecayRule;
+  onApply?: (pokemon: PokemonCombatState, stacks: number) => PokemonCombatState;
+  onTurnStart?: (pokemon: PokemonCombatState, stacks: number) => TurnStartResult;
+  onTurnEnd?: (pokemon: PokemonCombatState, stacks: number) => PokemonCombatState;
+  onDamageDealt?: (amount: number, stacks: number) => number;
+  onDamageTaken?: (damage: IncomingDamage, stacks: number) => IncomingDamage;
+  criticalHits?: boolean; // The holder's attacks land critical hits
+  modifySpeed?: (speed: number, stacks: number) => number;
+}
+
+function loseHp(pokemon: PokemonCombatState, amount: number): PokemonCombatState {
+  return { ...pokemon, currentHp: Math.max(0, pokemon.currentHp - amount) };
+}
+
+function gainHp(pokemon: PokemonCombatState, amount: number): PokemonCombatState {
+  return { ...pokemon, currentHp: Math.min(pokemon.maxHp, pokemon.currentHp + amount) };
+}
+
+// Debuffs, applied by status cards
+export const STATUS_DEFINITIONS: Record<StatusType, EffectDefinition> = {
+  poison: {
+    name: 'Poison',
+    color: '#a855f7',
+    description: 'Takes damage equal to stacks at end of turn.',
+    decay: 'stack',
+    onTurnEnd: (pokemon, stacks) => loseHp(pokemon, stacks),
+  },
+  burn: {
+    name: 'Burn',
+    color: '#f97316',
+    description: 'Takes damage equal to stacks at end of turn and deals 25% less damage. Thaws freeze.',
+    decay: 'stack',
+    onApply: pokemon => ({ ...pokemon, statuses: pokemon.statuses.filter(s => s.type !== 'freeze') }),
+    onTurnEnd: (pokemon, stacks) => loseHp(pokemon, stacks),
+    onDamageDealt: amount => Math.floor(amount * 0.75),
+  },
+  freeze: {
+    name: 'Freeze',
+    color: '#06b6d4',
+    description: 'Skips its turn.',
+    decay: 'stack',
+    onTurnStart: pokemon => ({ pokemon, skipTurn: true }),
+  },
+  paralyze: {
+    name: 'Paralyze',
+    color: '#eab308',
+    description: 'Moves at half speed next round.',
+    decay: 'round',
+    modifySpeed: speed => Math.floor(speed / 2),
+  },
+  weaken: {
+    name: 'Weak',
+    color: '#64748b',
+    description: 'Deals 1 less damage per stack.',
+    decay: 'stack',
+    onDamageDealt: (amount, stacks) => Math.max(0, amount - stacks),
+  },
+  vulnerable: {
+    name: 'Vuln',
+    color: '#dc2626',
+    description: 'Takes 50% more damage before block.',
+    decay: 'stack',
+    onDamageTaken: damage => ({ ...damage, amount: Math.floor(damage.amount * 1.5) }),
+  },
+};
+
+// Buffs, applied by buff cards
+export const BUFF_DEFINITIONS: Record<BuffType, EffectDefinition> = {
+  attackUp: {
+    name: 'Atk+',
+    color: '#22c55e',
+    description: 'Deals 1 more damage per stack.',
+    decay: 'never',
+    onDamageDealt: (amount, stacks) => amount + stacks,
+  },
+  defenseUp: {
+    name: 'Def+',
+    color: '#0ea5e9',
+    description: 'Takes 1 less damage per stack.',
+    decay: 'never',
+    onDamageTaken: (damage, stacks) => ({ ...damage, amount: Math.max(0, damage.amount - stacks) }),
+  },
+  regen: {
+    name: 'Regen',
+    color: '#84cc16',
+    description: 'Heals HP equal to stacks at end of turn.',
+    decay: 'stack',
+    onTurnEnd: (pokemon, stacks) => gainHp(pokemon, stacks),
+  },
+  thorns: {
+    name: 'Thorns',
+    color: '#a16207',
+    description: 'Deals damage equal to stacks back to attackers.',
+    decay: 'never',
+    onDamageTaken: (damage, stacks) => ({ ...damage, retaliation: damage.retaliation + stacks }),
+  },
+  focus: {
+    name: 'Focus',
+    color: '#f59e0b',
+    description: `Attacks are critical hits, dealing ${CRITICAL_MULTIPLIER}x damage. Lasts 1 turn per stack.`,
+    decay: 'stack',
+    criticalHits: true,
+  },
+};
+
+export function getStatusDefinition(type: StatusType): EffectDefinition {
+  return STATUS_DEFINITIONS[type];
+}
+
+export function getBuffDefinition(type: BuffType): EffectDefinition {
+  return BUFF_DEFINITIONS[type];
+}
+
+export function isStatusType(type: StatusType | BuffType): type is StatusType {
+  return type in STATUS_DEFINITIONS;
+}
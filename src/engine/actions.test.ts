@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn } from './battle';
+import { getLegalActions, validateAction } from './actions';
+import { updateCombatant } from './combatants';
+import type { Action, BattleState } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+// A battle on the first player's turn, holding the given hand
+function createPlayerTurn(hand: string[], mana = 3): BattleState {
+  let battleState = createBattleState(
+    [
+      { pokemonId: 'bulbasaur' as PokemonId, playerId: '1', playerName: 'Player 1' },
+      { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2' },
+    ],
+    [{ pokemonId: 'rattata' as PokemonId }, { pokemonId: 'rattata' as PokemonId }],
+    1
+  );
+  const player = battleState.playerParty[0];
+  battleState = updateCombatant(battleState, { ...player, hand, currentMana: mana });
+  return { ...battleState, currentTurnIndex: battleState.turnOrder.findIndex(p => p.instanceId === player.instanceId) };
+}
+
+function play(cardId: string, targetIds?: string[], casterId = 'player-0'): Action {
+  return { type: 'playCard', cardId, casterId, targetIds };
+}
+
+describe('Action validation', () => {
+  it('should accept a playable card at a valid target', () => {
+    expect(validateAction(createPlayerTurn(['vine_whip_1']), play('vine_whip_1', ['enemy-1']))).toEqual({ valid: true });
+  });
+
+  it('should give the reason an action is rejected', () => {
+    const battleState = createPlayerTurn(['vine_whip_1', 'poison_powder'], 1);
+
+    expect(validateAction(battleState, play('vine_whip_1', ['enemy-0'], 'player-1'))).toEqual({ valid: false, reason: 'notYourTurn' });
+    expect(validateAction(battleState, play('not_a_card'))).toEqual({ valid: false, reason: 'unknownCard' });
+    expect(validateAction(battleState, play('ember_1', ['enemy-0']))).toEqual({ valid: false, reason: 'cardNotInHand' });
+    expect(validateAction(battleState, play('poison_powder', ['enemy-0']))).toEqual({ valid: false, reason: 'notEnoughMana' });
+    expect(validateAction(battleState, play('vine_whip_1', ['player-1']))).toEqual({ valid: false, reason: 'invalidTarget' });
+    expect(validateAction(createPlayerTurn(['gunk']), play('gunk'))).toEqual({ valid: false, reason: 'unplayable' });
+    expect(validateAction(battleState, { type: 'choosePath', nodeId: 'start' })).toEqual({ valid: false, reason: 'notABattleAction' });
+    expect(validateAction({ ...battleState, result: 'victory' }, { type: 'endTurn' })).toEqual({ valid: false, reason: 'battleOver' });
+  });
+
+  it('should reject fainted targets', () => {
+    let battleState = createPlayerTurn(['vine_whip_1']);
+    battleState = updateCombatant(battleState, { ...battleState.enemies[0], currentHp: 0 });
+
+    expect(validateAction(battleState, play('vine_whip_1', ['enemy-0']))).toEqual({ valid: false, reason: 'invalidTarget' });
+  });
+
+  it('should leave the state unchanged for rejected actions', () => {
+    const battleState = createPlayerTurn(['vine_whip_1']);
+
+    expect(processTurn(battleState, play('vine_whip_1', ['player-1']))).toEqual(battleState);
+  });
+});
+
+describe('Legal actions', () => {
+  it('should list each distinct playable card at each valid target, then ending the turn', () => {
+    const battleState = createPlayerTurn(['vine_whip_1', 'vine_whip_1', 'defend_bulbasaur', 'heal'], 2);
+
+    expect(getLegalActions(battleState)).toEqual([
+      play('vine_whip_1', ['enemy-0']),
+      play('vine_whip_1', ['enemy-1']),
+      play('defend_bulbasaur'),
+      play('heal', ['player-0']),
+      play('heal', ['player-1']),
+      { type: 'endTurn' },
+    ]);
+  });
+
+  it('should only list actions that validate', () => {
+    const battleState = createPlayerTurn(['vine_whip_1', 'defend_bulbasaur', 'heal', 'poison_powder']);
+
+    getLegalActions(battleState).forEach(action => expect(validateAction(battleState, action).valid).toBe(true));
+  });
+
+  it('should list nothing once the battle is over', () => {
+    expect(getLegalActions({ ...createPlayerTurn(['vine_whip_1']), result: 'defeat' })).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Action, BattleState, PlayCardAction } from './types';
+import { getCardDefinition, hasKeyword } from '../config/cards';
+import { getTargetingEffect, getEffectTargets, getValidTargets } from './cards';
+import { findCombatant } from './combatants';
+
+// Why the engine would ignore an action
+export type ActionRejection =
+  | 'battleOver'
+  | 'notABattleAction' // e.g. choosePath
+  | 'notYourTurn' // The caster isn't the current combatant
+  | 'unknownCard'
+  | 'cardNotInHand'
+  | 'unplayable' // The card has the unplayable keyword
+  | 'notEnoughMana'
+  | 'noValidTarget' // The card needs a target and none is standing
+  | 'invalidTarget'; // A chosen target can't be targeted by the card
+
+export type ActionValidation = { valid: true } | { valid: false; reason: ActionRejection };
+
+// Check an action against the rules processTurn enforces. Single-target cards played without
+// a target fall back to the first valid one, so only targets that are given must be valid.
+export function validateAction(battleState: BattleState, action: Action): ActionValidation {
+  if (battleState.result !== 'ongoing') {
+    return reject('battleOver');
+  }
+  if (action.type === 'endTurn') {
+    return { valid: true };
+  }
+  if (action.type !== 'playCard') {
+    return reject('notABattleAction');
+  }
+
+  const current = battleState.turnOrder[battleState.currentTurnIndex];
+  const caster = findCombatant(battleState, action.casterId);
+  if (!current || !caster || current.instanceId !== caster.instanceId || caster.currentHp <= 0) {
+    return reject('notYourTurn');
+  }
+
+  const card = getCardDefinition(action.cardId);
+  if (!card) {
+    return reject('unknownCard');
+  }
+  if (!caster.hand.includes(action.cardId)) {
+    return reject('cardNotInHand');
+  }
+  if (hasKeyword(action.cardId, 'unplayable')) {
+    return reject('unplayable');
+  }
+  if (caster.currentMana < card.cost) {
+    return reject('notEnoughMana');
+  }
+
+  const targetingEffect = getTargetingEffect(card);
+  if (targetingEffect) {
+    const validTargetIds = getValidTargets(card, caster, battleState).map(p => p.instanceId);
+    if (action.targetIds?.some(id => !validTargetIds.includes(id))) {
+      return reject('invalidTarget');
+    }
+    if (getEffectTargets(targetingEffect, caster, battleState, action.targetIds).length === 0) {
+      return reject('noValidTarget');
+    }
+  }
+
+  return { valid: true };
+}
+
+function reject(reason: ActionRejection): ActionValidation {
+  return { valid: false, reason };
+}
+
+// Everything the current combatant may do: each playable card in hand (once per distinct card)
+// at each valid target, and ending the turn
+export function getLegalActions(battleState: BattleState): Action[] {
+  const current = battleState.turnOrder[battleState.currentTurnIndex];
+  if (battleState.result !== 'ongoing' || !current) {
+    return [];
+  }
+
+  const caster = findCombatant(battleState, current.instanceId) ?? current;
+  const plays: PlayCardAction[] = [];
+  for (const cardId of new Set(caster.hand)) {
+    const card = getCardDefinition(cardId);
+    if (!card) continue;
+
+    const targetIds = getTargetingEffect(card)
+      ? getValidTargets(card, caster, battleState).map(p => [p.instanceId])
+      : [undefined];
+    for (const ids of targetIds) {
+      const play: PlayCardAction = { type: 'playCard', cardId, casterId: caster.instanceId, targetIds: ids };
+      if (validateAction(battleState, play).valid) {
+        plays.push(play);
+      }
+    }
+  }
+
+  return [...plays, { type: 'endTurn' }];
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState } from './battle';
+import { chooseEnemyAction, choosePlayerAction } from './ai';
+import type { Action, BattleState } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+function createAutopilotBattle(hand: string[]): BattleState {
+  const battleState = createBattleState(
+    [
+      { pokemonId: 'bulbasaur' as PokemonId, playerId: '1', playerName: 'Player 1' },
+      { pokemonId: 'charmander' as PokemonId, playerId: '2', playerName: 'Player 2' },
+    ],
+    [{ pokemonId: 'rattata' as PokemonId }, { pokemonId: 'raticate' as PokemonId }]
+  );
+  battleState.playerParty[0].hand = hand;
+  battleState.playerParty[0].currentMana = 3;
+  return battleState;
+}
+
+function getPlays(actions: Action[]) {
+  return actions.filter((action): action is Action & { type: 'playCard' } => action.type === 'playCard');
+}
+
+describe('Player autopilot', () => {
+  it('should heal the most injured ally', () => {
+    const battleState = createAutopilotBattle(['heal']);
+    battleState.playerParty[1].currentHp = 5;
+    
+    const plays = getPlays(choosePlayerAction(battleState, battleState.playerParty[0]));
+    
+    expect(plays).toEqual([expect.objectContaining({ cardId: 'heal', targetIds: [battleState.playerParty[1].instanceId] })]);
+  });
+
+  it('should not waste heals when the party is at full HP', () => {
+    const battleState = createAutopilotBattle(['heal']);
+    
+    expect(getPlays(choosePlayerAction(battleState, battleState.playerParty[0]))).toHaveLength(0);
+  });
+
+  it('should aim damage at an enemy it can knock out', () => {
+    const battleState = createAutopilotBattle(['vine_whip_1']);
+    battleState.enemies[1].currentHp = 4;
+    
+    const plays = getPlays(choosePlayerAction(battleState, battleState.playerParty[0]));
+    
+    expect(plays[0].targetIds).toEqual([battleState.enemies[1].instanceId]);
+  });
+
+  it('should move on to another target once one is expected to faint', () => {
+    const battleState = createAutopilotBattle(['vine_whip_1', 'vine_whip_1']);
+    battleState.enemies[0].currentHp = 4;
+    
+    const plays = getPlays(choosePlayerAction(battleState, battleState.playerParty[0]));
+    
+    expect(plays.map(play => play.targetIds)).toEqual([
+      [battleState.enemies[0].instanceId],
+      [battleState.enemies[1].instanceId],
+    ]);
+  });
+
+  it('should stay within its mana and end the turn', () => {
+    const battleState = createAutopilotBattle(['vine_whip_1', 'vine_whip_1', 'vine_whip_1', 'vine_whip_1']);
+    battleState.playerParty[0].currentMana = 2;
+    
+    const actions = choosePlayerAction(battleState, battleState.playerParty[0]);
+    
+    expect(getPlays(actions)).toHaveLength(2);
+    expect(actions[actions.length - 1]).toEqual({ type: 'endTurn' });
+  });
+});
+
+describe('Enemy support', () => {
+  it('should shield the teammate closest to fainting', () => {
+    const battleState = createAutopilotBattle([]);
+    const [rattata, raticate] = battleState.enemies;
+    raticate.hand = ['safeguard'];
+    raticate.currentMana = 1;
+    rattata.currentHp = 3;
+
+    const plays = getPlays(chooseEnemyAction(battleState, raticate));
+
+    expect(plays).toEqual([expect.objectContaining({ cardId: 'safeguard', targetIds: [rattata.instanceId] })]);
+  });
+
+  it('should heal an injured teammate rather than itself', () => {
+    const battleState = createAutopilotBattle([]);
+    const [rattata, raticate] = battleState.enemies;
+    raticate.hand = ['heal'];
+    raticate.currentMana = 2;
+    rattata.currentHp = 5;
+
+    const plays = getPlays(chooseEnemyAction(battleState, raticate));
+
+    expect(plays).toEqual([expect.objectContaining({ cardId: 'heal', targetIds: [rattata.instanceId] })]);
+  });
+});
@@ -1,12 +1,19 @@
 import type { BattleState, PokemonCombatState, Action } from './types';
-import { getCardDefinition } from '../config/cards';
-import type { CardDefinition } from '../config/cards';
+import { getCardDefinition, hasKeyword } from '../config/cards';
+import type { CardDefinition, CardEffect, StatusType } from '../config/cards';
+import { getTargetingEffect, getValidTargets } from './cards';
+import { getStatusStacks } from './status';
+import { calculateDamage } from './damage';
+import { planTurn } from './planner';
+import { getStandingFrontFirst } from './combatants';
+import { DEFAULT_DIFFICULTY, getDifficultySettings } from '../config/difficulty';
+import type { Difficulty } from '../config/difficulty';
 
 function getCardPriority(card: CardDefinition): number {
   // Priority: 1 = highest (damage), 2 = medium (status/debuff), 3 = lowest (defensive/other)
-  if (card.effect.type === 'damage') {
+  if (card.effects.some(effect => effect.type === 'damage')) {
     return 1;
-  } else if (card.effect.type === 'status') {
+  } else if (card.effects.some(effect => effect.type === 'status' || effect.type === 'addCard')) {
     return 2;
   } else {
     return 3;
@@ -22,25 +29,15 @@ function getAffordableCards(
       return card ? { card, cardId } : null;
     })
     .filter((item): item is { card: CardDefinition; cardId: string } => 
-      item !== null && item.card.cost <= pokemon.currentMana
+      item !== null && item.card.cost <= pokemon.currentMana && !hasKeyword(item.cardId, 'unplayable')
     )
     .sort((a, b) => getCardPriority(a.card) - getCardPriority(b.card));
 }
 
-function getFrontMostAlivePlayer(battleState: BattleState): PokemonCombatState | undefined {
-  return battleState.playerParty.find(p => p.currentHp > 0);
-}
-
 export function chooseEnemyAction(battleState: BattleState, enemy: PokemonCombatState): Action[] {
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'ai.ts:34',message:'chooseEnemyAction entry',data:{enemyId:enemy.pokemonId,enemyMana:enemy.currentMana,enemyHand:enemy.hand,enemyHandLength:enemy.hand.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'F'})}).catch(()=>{});
-  // #endregion
   const actions: Action[] = [];
   let remainingMana = enemy.currentMana;
   const affordableCards = getAffordableCards(enemy);
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'ai.ts:37',message:'Affordable cards found',data:{affordableCount:affordableCards.length,affordableCardIds:affordableCards.map(c => c.cardId)},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'G'})}).catch(()=>{});
-  // #endregion
 
   // Greedily play cards in priority order
   for (const { card, cardId } of affordableCards) {
@@ -48,54 +45,181 @@ export function chooseEnemyAction(battleState: BattleState, enemy: PokemonCombat
       continue;
     }
 
-    // Determine target
+    // Determine target for the card's single-target effects, if any
     let targetIds: string[] | undefined;
+    const targetingEffect = getTargetingEffect(card);
     
-    if (card.effect.type === 'damage' || card.effect.type === 'status') {
-      if (card.effect.target === 'all') {
-        // Multi-target, no explicit targets needed
-        targetIds = undefined;
-      } else {
-        // Single target - front-most alive player
-        const target = getFrontMostAlivePlayer(battleState);
-        if (target) {
-          targetIds = [target.pokemonId];
-        } else {
-          continue; // No valid target
-        }
-      }
-    } else if (card.effect.type === 'heal' || card.effect.type === 'block') {
-      if (card.effect.target === 'all') {
-        targetIds = undefined;
+    if (targetingEffect?.type === 'damage' || targetingEffect?.type === 'status' || targetingEffect?.type === 'addCard') {
+      // Single target - front-most alive opponent in reach
+      const target = getStandingFrontFirst(getValidTargets(card, enemy, battleState))[0];
+      if (target) {
+        targetIds = [target.instanceId];
       } else {
-        // Single target - self for heals/blocks
-        targetIds = [enemy.pokemonId];
+        continue; // No valid target
       }
-    } else if (card.effect.type === 'buff') {
-      if (card.effect.target === 'all') {
-        targetIds = undefined;
-      } else {
-        targetIds = [enemy.pokemonId];
+    } else if (targetingEffect) {
+      // Single target - support a teammate, or itself
+      const target = chooseSupportTarget(getValidTargets(card, enemy, battleState), targetingEffect) ?? enemy;
+      targetIds = [target.instanceId];
+    }
+    actions.push({
+      type: 'playCard',
+      cardId,
+      casterId: enemy.instanceId,
+      targetIds,
+    });
+
+    remainingMana -= card.cost;
+  }
+
+  // Always end turn after playing cards
+  actions.push({
+    type: 'endTurn',
+  });
+
+  return actions;
+}
+
+// Enemy turns at a difficulty: easy plays greedily, harder difficulties search ahead with the engine
+export function chooseEnemyActionAtDifficulty(
+  battleState: BattleState,
+  enemy: PokemonCombatState,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY
+): Action[] {
+  const settings = getDifficultySettings(difficulty);
+  return settings.searchDepth > 0 ? planTurn(battleState, enemy, settings) : chooseEnemyAction(battleState, enemy);
+}
+
+// Autopilot for party members: plays the cards worth the most right now, aiming damage to finish
+// off enemies, statuses at the sturdiest enemy and support at the ally that needs it most
+export function choosePlayerAction(battleState: BattleState, pokemon: PokemonCombatState): Action[] {
+  const actions: Action[] = [];
+  let remainingMana = pokemon.currentMana;
+
+  // HP each Pokemon is expected to have after the cards planned so far
+  const predictedHp = new Map(
+    [...battleState.playerParty, ...battleState.enemies].map(p => [p.instanceId, p.currentHp + p.block])
+  );
+  const isStanding = (p: PokemonCombatState) => (predictedHp.get(p.instanceId) ?? 0) > 0;
+
+  const plans = getAffordableCards(pokemon)
+    .map(({ card, cardId }) => ({ card, cardId, value: getCardValue(battleState, card) }))
+    .filter(plan => plan.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  for (const { card, cardId } of plans) {
+    if (remainingMana < card.cost || !battleState.enemies.some(isStanding)) {
+      continue;
+    }
+
+    let targetIds: string[] | undefined;
+    const targetingEffect = getTargetingEffect(card);
+    const candidates = getValidTargets(card, pokemon, battleState).filter(isStanding);
+    const enemies = battleState.enemies.filter(isStanding);
+
+    if (targetingEffect?.type === 'damage' || targetingEffect?.type === 'status') {
+      const target = targetingEffect.type === 'damage'
+        ? chooseDamageTarget(candidates, p => getHitDamage(pokemon, card, targetingEffect.amount, p), predictedHp)
+        : chooseStatusTarget(candidates, targetingEffect.status);
+      if (!target) continue;
+      targetIds = [target.instanceId];
+    } else if (targetingEffect) {
+      const target = chooseSupportTarget(candidates, targetingEffect);
+      if (!target) continue;
+      targetIds = [target.instanceId];
+    }
+
+    // Track damage against the chosen target so later cards don't overkill it
+    for (const effect of card.effects) {
+      if (effect.type === 'damage' && effect.side === 'enemy') {
+        const hit = effect.target === 'single' ? enemies.filter(e => targetIds?.includes(e.instanceId)) : enemies;
+        hit.forEach(e => predictedHp.set(e.instanceId, (predictedHp.get(e.instanceId) ?? 0) - getHitDamage(pokemon, card, effect.amount, e)));
       }
     }
 
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'ai.ts:76',message:'Adding playCard action',data:{cardId,cardName:card.name,cardCost:card.cost,remainingMana,enemyHand:enemy.hand,cardInHand:enemy.hand.includes(cardId)},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'H'})}).catch(()=>{});
-    // #endregion
     actions.push({
       type: 'playCard',
       cardId,
-      casterId: enemy.pokemonId,
+      casterId: pokemon.instanceId,
       targetIds,
     });
 
     remainingMana -= card.cost;
   }
 
-  // Always end turn after playing cards
   actions.push({
     type: 'endTurn',
   });
 
   return actions;
 }
+
+// How much the party AI wants to play a card now; 0 means not at all
+function getCardValue(battleState: BattleState, card: CardDefinition): number {
+  if (card.effects.some(effect => effect.type === 'heal')) {
+    const target = getMostInjured(battleState.playerParty.filter(p => p.currentHp > 0));
+    if (!target) return 0; // Don't waste heals at full HP
+    return target.currentHp < target.maxHp / 2 ? 4 : 0.5;
+  }
+  if (card.effects.some(effect => effect.type === 'damage')) return 3;
+  if (card.effects.some(effect => effect.type === 'swap')) return 0; // Formation is the players' call
+  if (card.effects.some(effect => effect.type === 'status')) return 2;
+  return 1; // Block, buffs and resource cards use up leftover mana
+}
+
+// The ally missing the largest share of their HP, if anyone is hurt
+function getMostInjured(allies: PokemonCombatState[]): PokemonCombatState | undefined {
+  return allies
+    .filter(p => p.currentHp < p.maxHp)
+    .sort((a, b) => a.currentHp / a.maxHp - b.currentHp / b.maxHp)[0];
+}
+
+// Heals go to the most injured ally, block to the one closest to fainting and buffs to the one
+// with the fewest stacks of the buff
+function chooseSupportTarget(
+  candidates: PokemonCombatState[],
+  effect: CardEffect
+): PokemonCombatState | undefined {
+  if (effect.type === 'heal') {
+    return getMostInjured(candidates);
+  }
+  if (effect.type === 'block') {
+    return [...candidates].sort((a, b) => a.currentHp + a.block - (b.currentHp + b.block))[0];
+  }
+  if (effect.type === 'buff') {
+    const stacksOf = (p: PokemonCombatState) => p.buffs.find(b => b.type === effect.buff)?.stacks ?? 0;
+    return [...candidates].sort((a, b) => stacksOf(a) - stacksOf(b))[0];
+  }
+  return candidates[0];
+}
+
+// Damage a hit from the card would deal to the target, before block
+function getHitDamage(
+  attacker: PokemonCombatState,
+  card: CardDefinition,
+  amount: number,
+  target: PokemonCombatState
+): number {
+  return calculateDamage(attacker, target, amount, card.moveType).beforeBlock;
+}
+
+// Prefer a target the hit knocks out, then the one the fewest such hits would knock out
+function chooseDamageTarget(
+  candidates: PokemonCombatState[],
+  damageTo: (target: PokemonCombatState) => number,
+  predictedHp: Map<string, number>
+): PokemonCombatState | undefined {
+  const hpOf = (p: PokemonCombatState) => predictedHp.get(p.instanceId) ?? p.currentHp;
+  const hitsToFaint = (p: PokemonCombatState) => hpOf(p) / Math.max(1, damageTo(p));
+  const lethal = candidates.filter(p => hpOf(p) <= damageTo(p)).sort((a, b) => hpOf(b) - hpOf(a));
+  return lethal[0] ?? [...candidates].sort((a, b) => hitsToFaint(a) - hitsToFaint(b))[0];
+}
+
+// Debuffs last longest on the sturdiest target; skip ones that already have the status
+function chooseStatusTarget(
+  candidates: PokemonCombatState[],
+  status: StatusType
+): PokemonCombatState | undefined {
+  const sorted = [...candidates].sort((a, b) => b.currentHp - a.currentHp);
+  return sorted.find(p => getStatusStacks(p, status) === 0) ?? sorted[0];
+}
@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createBattleState, processTurn } from './battle';
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn, resolveTurn } from './battle';
 import type { Action, BattleState } from './types';
 import type { PokemonId } from '../config/pokemon';
-import { getCardDefinition } from '../config/cards';
+import { createRng } from './random';
 
 // Helper to create a battle state with specific mana values
 function createBattleWithMana(
@@ -41,8 +41,8 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player.pokemonId,
-        targetIds: [battleState.enemies[0].pokemonId],
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
       };
       
       const newState = processTurn(battleState, action);
@@ -63,7 +63,7 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       const newState = processTurn(battleState, action);
@@ -85,7 +85,7 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'flamethrower_1',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       const newState = processTurn(battleState, action);
@@ -112,8 +112,8 @@ describe('Mana Management', () => {
       const burnAction: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player1.pokemonId,
-        targetIds: [currentState.enemies[0].pokemonId],
+        casterId: player1.instanceId,
+        targetIds: [currentState.enemies[0].instanceId],
       };
       
       currentState = processTurn(currentState, burnAction);
@@ -124,7 +124,7 @@ describe('Mana Management', () => {
       const defendAction: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player1.pokemonId,
+        casterId: player1.instanceId,
       };
       
       currentState = processTurn(currentState, defendAction);
@@ -145,7 +145,7 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       const newState = processTurn(battleState, action);
@@ -163,14 +163,14 @@ describe('Mana Management', () => {
       
       // End turn
       const endTurnAction: Action = { type: 'endTurn' };
-      let newState = processTurn(battleState, endTurnAction);
+      const newState = processTurn(battleState, endTurnAction);
       
       // Advance to next turn (enemy turn, then back to player)
       // For simplicity, manually trigger turn start by processing a new action
       // In actual game, this happens automatically when turn advances
       
       // Get the player after turn advancement
-      const playerAfterTurn = newState.playerParty.find(p => p.pokemonId === player.pokemonId);
+      const playerAfterTurn = newState.playerParty.find(p => p.instanceId === player.instanceId);
       
       // Mana should have regenerated (Charmander has maxMana 3, manaRegen 3)
       // But we need to wait for the player's next turn to regenerate
@@ -192,8 +192,8 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player.pokemonId,
-        targetIds: [battleState.enemies[0].pokemonId],
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
       };
       
       const newState = processTurn(battleState, action);
@@ -238,8 +238,8 @@ describe('Mana Management', () => {
       const burnAction: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player.pokemonId,
-        targetIds: [battleState.enemies[0].pokemonId],
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
       };
       
       let newState = processTurn(battleState, burnAction);
@@ -250,7 +250,7 @@ describe('Mana Management', () => {
       const defendAction: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       newState = processTurn(newState, defendAction);
@@ -278,8 +278,8 @@ describe('Mana Management', () => {
       const burnAction: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player.pokemonId,
-        targetIds: [currentState.enemies[0].pokemonId],
+        casterId: player.instanceId,
+        targetIds: [currentState.enemies[0].instanceId],
       };
       currentState = processTurn(currentState, burnAction);
       expect(getPlayerCombatant(currentState).currentMana).toBe(1);
@@ -288,7 +288,7 @@ describe('Mana Management', () => {
       const defendAction1: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       currentState = processTurn(currentState, defendAction1);
       expect(getPlayerCombatant(currentState).currentMana).toBe(0);
@@ -297,7 +297,7 @@ describe('Mana Management', () => {
       const defendAction2: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       const finalState = processTurn(currentState, defendAction2);
       expect(getPlayerCombatant(finalState).currentMana).toBe(0);
@@ -316,8 +316,8 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'burn_1',
-        casterId: player.pokemonId,
-        targetIds: [battleState.enemies[0].pokemonId],
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
       };
       
       const newState = processTurn(battleState, action);
@@ -339,7 +339,7 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'flamethrower_1',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       const newState = processTurn(battleState, action);
@@ -361,7 +361,7 @@ describe('Mana Management', () => {
       const action: Action = {
         type: 'playCard',
         cardId: 'defend_charmander',
-        casterId: player.pokemonId,
+        casterId: player.instanceId,
       };
       
       const newState = processTurn(battleState, action);
@@ -371,4 +371,229 @@ describe('Mana Management', () => {
       expect(updatedPlayer.currentMana).toBe(0);
     });
   });
+  
+  describe('End of turn hand', () => {
+    it('should discard the hand when the turn ends', () => {
+      const battleState = createBattleWithMana(3);
+      const player = getPlayerCombatant(battleState);
+      const handSize = player.hand.length;
+      
+      const newState = processTurn(battleState, { type: 'endTurn' });
+      const updatedPlayer = getPlayerCombatant(newState);
+      
+      expect(updatedPlayer.hand).toHaveLength(0);
+      expect(updatedPlayer.discard).toHaveLength(handSize);
+    });
+
+    it('should keep retained cards in hand', () => {
+      const battleState = createBattleWithMana(3);
+      const player = getPlayerCombatant(battleState);
+      player.retain = 2;
+      const keptCards = player.hand.slice(0, 2);
+      
+      const newState = processTurn(battleState, { type: 'endTurn' });
+      const updatedPlayer = getPlayerCombatant(newState);
+      
+      expect(updatedPlayer.hand).toEqual(keptCards);
+      expect(updatedPlayer.retain).toBe(0);
+    });
+  });
+
+  describe('Card keywords', () => {
+    it('should exhaust a card with exhaust when it is played', () => {
+      const battleState = createBattleWithMana(3);
+      getPlayerCombatant(battleState).hand = ['overheat'];
+
+      const newState = processTurn(battleState, { type: 'playCard', cardId: 'overheat', casterId: 'player-0', targetIds: ['enemy-0'] });
+      const updatedPlayer = getPlayerCombatant(newState);
+
+      expect(updatedPlayer.exhaust).toEqual(['overheat']);
+      expect(updatedPlayer.discard).not.toContain('overheat');
+    });
+
+    it('should keep retain cards and exhaust ethereal ones when the turn ends', () => {
+      const battleState = createBattleWithMana(3);
+      getPlayerCombatant(battleState).hand = ['dazed', 'ember_1', 'withdraw'];
+
+      const updatedPlayer = getPlayerCombatant(processTurn(battleState, { type: 'endTurn' }));
+
+      expect(updatedPlayer.hand).toEqual(['withdraw']);
+      expect(updatedPlayer.exhaust).toEqual(['dazed']);
+      expect(updatedPlayer.discard).toEqual(['ember_1']);
+    });
+
+    it('should always deal innate cards into the opening hand', () => {
+      const deck = ['ember_1', 'ember_1', 'ember_1', 'ember_1', 'ember_1', 'ember_1', 'ember_1', 'quick_attack', 'quick_attack'];
+
+      for (let seed = 1; seed <= 5; seed++) {
+        const battleState = createBattleState(
+          [{ pokemonId: 'pikachu' as PokemonId, playerId: '1', playerName: 'Player 1', deck }],
+          [{ pokemonId: 'magnemite' as PokemonId }],
+          createRng(seed)
+        );
+        expect(getPlayerCombatant(battleState).hand.filter(cardId => cardId === 'quick_attack')).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('Reproducible randomness', () => {
+    const party = [{ pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' }];
+    const enemies = [{ pokemonId: 'magnemite' as PokemonId }];
+
+    it('should deal the same hands from the same RNG state', () => {
+      const first = createBattleState(party, enemies, 1234);
+      const second = createBattleState(party, enemies, 1234);
+      
+      expect(first.playerParty[0].hand).toEqual(second.playerParty[0].hand);
+      expect(first.playerParty[0].deck).toEqual(second.playerParty[0].deck);
+      expect(first.rng).toBe(second.rng);
+    });
+
+    it('should continue with the same draws after a save and reload', () => {
+      const battleState = createBattleState(party, enemies, 1234);
+      const reloaded: BattleState = {
+        ...JSON.parse(JSON.stringify({ ...battleState, roundActed: [] })),
+        roundActed: new Set(),
+      };
+      
+      // Play out several rounds of ending turns from both copies
+      let original = battleState;
+      let restored = reloaded;
+      for (let i = 0; i < 10; i++) {
+        original = processTurn(original, { type: 'endTurn' });
+        restored = processTurn(restored, { type: 'endTurn' });
+      }
+      
+      expect(restored.playerParty[0].hand).toEqual(original.playerParty[0].hand);
+      expect(restored.enemies[0].hand).toEqual(original.enemies[0].hand);
+      expect(restored.rng).toBe(original.rng);
+    });
+  });
+
+  describe('Duplicate combatants', () => {
+    function createSwarmBattle(): BattleState {
+      return createBattleState(
+        [{ pokemonId: 'pikachu' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+        [
+          { pokemonId: 'magnemite' as PokemonId },
+          { pokemonId: 'magnemite' as PokemonId },
+          { pokemonId: 'magnemite' as PokemonId },
+        ]
+      );
+    }
+
+    it('should give every combatant a unique instance ID', () => {
+      const battleState = createSwarmBattle();
+      const ids = [...battleState.playerParty, ...battleState.enemies].map(p => p.instanceId);
+      
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should damage only the targeted instance', () => {
+      const battleState = createSwarmBattle();
+      const player = getPlayerCombatant(battleState);
+      const target = battleState.enemies[1];
+      
+      if (!player.hand.includes('thundershock_1')) {
+        player.hand.push('thundershock_1');
+      }
+      
+      const action: Action = {
+        type: 'playCard',
+        cardId: 'thundershock_1',
+        casterId: player.instanceId,
+        targetIds: [target.instanceId],
+      };
+      
+      const newState = processTurn(battleState, action);
+      
+      expect(newState.enemies[0].currentHp).toBe(newState.enemies[0].maxHp);
+      expect(newState.enemies[1].currentHp).toBeLessThan(target.currentHp);
+      expect(newState.enemies[2].currentHp).toBe(newState.enemies[2].maxHp);
+    });
+
+    it('should give each duplicate its own turn', () => {
+      let currentState = createSwarmBattle();
+      const actedIds: string[] = [];
+      
+      // Pikachu plus three Magnemites all act once in the first round
+      for (let i = 0; i < 4; i++) {
+        actedIds.push(currentState.turnOrder[currentState.currentTurnIndex].instanceId);
+        currentState = processTurn(currentState, { type: 'endTurn' });
+      }
+      
+      expect(new Set(actedIds).size).toBe(4);
+      expect(currentState.currentRound).toBe(2);
+    });
+  });
+
+  describe('Battle events', () => {
+    function playEmber(battleState: BattleState) {
+      const player = getPlayerCombatant(battleState);
+      if (!player.hand.includes('ember_1')) {
+        player.hand.push('ember_1');
+      }
+      return resolveTurn(battleState, {
+        type: 'playCard',
+        cardId: 'ember_1',
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
+      });
+    }
+
+    it('should report the card played, block absorbed and damage dealt', () => {
+      const battleState = createBattleWithMana(3);
+      battleState.enemies[0].block = 2;
+      const playerId = battleState.playerParty[0].instanceId;
+      const enemyId = battleState.enemies[0].instanceId;
+      
+      const { events } = playEmber(battleState);
+      
+      // Charmander's Ember hits for 7 with STAB
+      expect(events).toEqual([
+        { type: 'cardPlayed', casterId: playerId, cardId: 'ember_1', targetIds: [enemyId] },
+        { type: 'blockAbsorbed', targetId: enemyId, amount: 2 },
+        { type: 'damageDealt', sourceId: playerId, targetId: enemyId, amount: 5 },
+      ]);
+    });
+
+    it('should report faints and the end of the battle', () => {
+      const battleState = createBattleWithMana(3);
+      battleState.enemies[0].currentHp = 1;
+      
+      const { state, events } = playEmber(battleState);
+      
+      expect(state.result).toBe('victory');
+      expect(events.slice(-2)).toEqual([
+        { type: 'fainted', combatantId: battleState.enemies[0].instanceId },
+        { type: 'battleEnded', result: 'victory' },
+      ]);
+    });
+
+    it('should report status ticks, then the next turns and rounds', () => {
+      const battleState = createBattleWithMana(3);
+      const player = getPlayerCombatant(battleState);
+      player.statuses = [{ type: 'poison', stacks: 2 }];
+      
+      const { state, events } = resolveTurn(battleState, { type: 'endTurn' });
+      
+      const tick = events.find(e => e.type === 'statusTicked');
+      expect(tick).toMatchObject({ targetId: player.instanceId, effect: 'poison', stacksLeft: 1 });
+      expect(tick && tick.type === 'statusTicked' && tick.hpChange).toBe(getPlayerCombatant(state).currentHp - player.currentHp);
+      expect(events[events.length - 1]).toEqual({ type: 'turnStart', combatantId: state.turnOrder[state.currentTurnIndex].instanceId });
+      
+      const { events: nextEvents } = resolveTurn(state, { type: 'endTurn' });
+      expect(nextEvents).toContainEqual({ type: 'roundStart', round: 2 });
+    });
+
+    it('should return the same state as processTurn', () => {
+      const battleState = createBattleState(
+        [{ pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+        [{ pokemonId: 'magnemite' as PokemonId }],
+        42
+      );
+      
+      expect(resolveTurn(battleState, { type: 'endTurn' }).state).toEqual(processTurn(battleState, { type: 'endTurn' }));
+    });
+  });
 });
@@ -1,67 +1,43 @@
-import type { BattleState, PokemonCombatState, Action, BattleResult } from './types';
-import type { PokemonId } from '../config/pokemon';
+import type { BattleState, BattleEvent, PokemonCombatState, Action, BattleResult, CombatantSetup } from './types';
 import { getPokemonStats } from '../config/pokemon';
-import { getStarterDeck } from '../config/cards';
-import { createDeck, drawCards, playCard as moveCardToDiscard } from './deck';
-import { resolveCardEffect, getCardTargets } from './cards';
+import { getStarterDeck, hasKeyword } from '../config/cards';
+import { createDeck, drawCards, discardHand } from './deck';
+import type { RngState } from './random';
+import { createRng } from './random';
+import { resolveCardEffect } from './cards';
+import { validateAction } from './actions';
 import { getCardDefinition } from '../config/cards';
-import { processEndOfTurnStatuses, resetBlock } from './status';
+import { processStartOfTurnEffects, processEndOfTurnStatuses, processRoundStartEffects, resetBlock, getEffectiveSpeed } from './status';
+import { findCombatant, updateCombatant, syncTurnOrder } from './combatants';
+import { commitEnemyIntents } from './intents';
+import { createPartyBonuses } from './campaign';
+import type { Difficulty } from '../config/difficulty';
 
 export function createBattleState(
-  playerParty: Array<{ pokemonId: PokemonId; playerId?: string; playerName?: string }>,
-  enemies: Array<{ pokemonId: PokemonId }>
+  playerParty: CombatantSetup[],
+  enemies: CombatantSetup[],
+  rng: RngState = createRng(Date.now()),
+  difficulty?: Difficulty
 ): BattleState {
-  const playerCombatStates: PokemonCombatState[] = playerParty.map(p => {
-    const stats = getPokemonStats(p.pokemonId);
-    const deck = createDeck(getStarterDeck(p.pokemonId));
-    const { hand, deck: remainingDeck } = drawCards(deck, [], [], 5);
-    
-    return {
-      pokemonId: p.pokemonId,
-      playerId: p.playerId,
-      currentHp: stats.maxHp,
-      maxHp: stats.maxHp,
-      currentMana: stats.maxMana,
-      maxMana: stats.maxMana,
-      manaRegen: stats.manaRegen,
-      speed: stats.speed,
-      block: 0,
-      statuses: [],
-      buffs: [],
-      hand,
-      deck: remainingDeck,
-      discard: [],
-      hasActedThisRound: false,
-    };
+  let nextRng = rng;
+
+  const playerCombatStates: PokemonCombatState[] = playerParty.map((p, index) => {
+    const created = createCombatant(p, `player-${index}`, nextRng);
+    nextRng = created.rng;
+    return created.combatant;
   });
 
-  const enemyCombatStates: PokemonCombatState[] = enemies.map(e => {
-    const stats = getPokemonStats(e.pokemonId);
-    const deck = createDeck(getStarterDeck(e.pokemonId));
-    const { hand, deck: remainingDeck } = drawCards(deck, [], [], 5);
-    
-    return {
-      pokemonId: e.pokemonId,
-      currentHp: stats.maxHp,
-      maxHp: stats.maxHp,
-      currentMana: stats.maxMana,
-      maxMana: stats.maxMana,
-      manaRegen: stats.manaRegen,
-      speed: stats.speed,
-      block: 0,
-      statuses: [],
-      buffs: [],
-      hand,
-      deck: remainingDeck,
-      discard: [],
-      hasActedThisRound: false,
-    };
+  const enemyCombatStates: PokemonCombatState[] = enemies.map((e, index) => {
+    // Enemies are never player-controlled
+    const created = createCombatant({ ...e, playerId: undefined }, `enemy-${index}`, nextRng);
+    nextRng = created.rng;
+    return created.combatant;
   });
 
   const allCombatants = [...playerCombatStates, ...enemyCombatStates];
   const turnOrder = calculateTurnOrder(allCombatants);
 
-  return {
+  return startCurrentTurn(commitEnemyIntents({
     playerParty: playerCombatStates,
     enemies: enemyCombatStates,
     turnOrder,
@@ -69,13 +45,54 @@ export function createBattleState(
     currentRound: 1,
     roundActed: new Set(),
     result: 'ongoing',
+    rng: nextRng,
+    difficulty,
+  }), []);
+}
+
+function createCombatant(
+  setup: CombatantSetup,
+  instanceId: string,
+  rng: RngState
+): { combatant: PokemonCombatState; rng: RngState } {
+  const stats = getPokemonStats(setup.pokemonId);
+  const bonuses = setup.bonuses ?? createPartyBonuses();
+  const maxHp = stats.maxHp + bonuses.maxHp;
+  const maxMana = stats.maxMana + bonuses.maxMana;
+  const { deck, rng: shuffledRng } = createDeck(setup.deck ?? getStarterDeck(setup.pokemonId), rng);
+  // Innate cards are on top of the deck, and all of them make the opening hand
+  const openingHandSize = Math.max(5, deck.filter(cardId => hasKeyword(cardId, 'innate')).length);
+  const { hand, deck: remainingDeck, rng: drawnRng } = drawCards(deck, [], [], openingHandSize, shuffledRng);
+
+  const combatant: PokemonCombatState = {
+    instanceId,
+    pokemonId: setup.pokemonId,
+    playerId: setup.playerId,
+    currentHp: Math.min(maxHp, setup.currentHp ?? maxHp),
+    maxHp,
+    currentMana: maxMana,
+    maxMana,
+    manaRegen: stats.manaRegen + bonuses.manaRegen,
+    speed: stats.speed + bonuses.speed,
+    block: 0,
+    row: setup.row ?? stats.row,
+    statuses: [],
+    buffs: [],
+    hand,
+    deck: remainingDeck,
+    discard: [],
+    exhaust: [],
+    retain: 0,
+    hasActedThisRound: false,
   };
+
+  return { combatant, rng: drawnRng };
 }
 
 export function calculateTurnOrder(combatants: PokemonCombatState[]): PokemonCombatState[] {
   return [...combatants]
     .filter(p => p.currentHp > 0)
-    .sort((a, b) => b.speed - a.speed);
+    .sort((a, b) => getEffectiveSpeed(b) - getEffectiveSpeed(a));
 }
 
 export function checkBattleEnd(battleState: BattleState): BattleResult {
@@ -91,12 +108,12 @@ export function checkBattleEnd(battleState: BattleState): BattleResult {
   return 'ongoing';
 }
 
-function startNewRound(battleState: BattleState): BattleState {
+function startNewRound(battleState: BattleState, events: BattleEvent[]): BattleState {
   // Reset block for all combatants
   const newPlayerParty = battleState.playerParty.map(resetBlock);
   const newEnemies = battleState.enemies.map(resetBlock);
   
-  // Recalculate turn order
+  // Recalculate turn order, then wear off the effects that only slow Pokemon for a round
   const allCombatants = [...newPlayerParty, ...newEnemies];
   const turnOrder = calculateTurnOrder(allCombatants);
   
@@ -104,44 +121,32 @@ function startNewRound(battleState: BattleState): BattleState {
   const newRoundActed = new Set<string>();
   
   // Draw cards for all living Pokemon at end of round (up to 5 cards each)
-  const updatedPlayerParty = newPlayerParty.map(p => {
+  let rng = battleState.rng;
+  const drawForRound = (p: PokemonCombatState): PokemonCombatState => {
     if (p.currentHp <= 0) {
       // Dead Pokemon don't draw cards, but still mark as not acted
       return { ...p, hasActedThisRound: false };
     }
-    const { hand, deck, discard } = drawCards(p.deck, p.hand, p.discard, 5);
-    return { ...p, hand, deck, discard, hasActedThisRound: false };
-  });
-  
-  const updatedEnemies = newEnemies.map(e => {
-    if (e.currentHp <= 0) {
-      // Dead Pokemon don't draw cards, but still mark as not acted
-      return { ...e, hasActedThisRound: false };
-    }
-    const { hand, deck, discard } = drawCards(e.deck, e.hand, e.discard, 5);
-    return { ...e, hand, deck, discard, hasActedThisRound: false };
-  });
+    const drawn = drawCards(p.deck, p.hand, p.discard, 5, rng);
+    rng = drawn.rng;
+    return { ...p, hand: drawn.hand, deck: drawn.deck, discard: drawn.discard, hasActedThisRound: false };
+  };
+  const updatedPlayerParty = newPlayerParty.map(processRoundStartEffects).map(drawForRound);
+  const updatedEnemies = newEnemies.map(processRoundStartEffects).map(drawForRound);
 
-  // Update turn order with the new hand states
-  const updatedTurnOrder = turnOrder.map(pokemon => {
-    if (pokemon.playerId) {
-      const updated = updatedPlayerParty.find(p => p.pokemonId === pokemon.pokemonId);
-      return updated || pokemon;
-    } else {
-      const updated = updatedEnemies.find(e => e.pokemonId === pokemon.pokemonId);
-      return updated || pokemon;
-    }
-  });
+  events.push({ type: 'roundStart', round: battleState.currentRound + 1 });
 
-  return {
+  // Update turn order with the new hand states, then let enemies commit to their next turn
+  return commitEnemyIntents(syncTurnOrder({
     ...battleState,
     playerParty: updatedPlayerParty,
     enemies: updatedEnemies,
-    turnOrder: updatedTurnOrder,
+    turnOrder,
     currentTurnIndex: 0,
     currentRound: battleState.currentRound + 1,
     roundActed: newRoundActed,
-  };
+    rng,
+  }));
 }
 
 function startPokemonTurn(pokemon: PokemonCombatState): PokemonCombatState {
@@ -157,221 +162,168 @@ function startPokemonTurn(pokemon: PokemonCombatState): PokemonCombatState {
   };
 }
 
+// Begin the turn of the combatant at currentTurnIndex
+function startCurrentTurn(battleState: BattleState, events: BattleEvent[]): BattleState {
+  const current = battleState.turnOrder[battleState.currentTurnIndex];
+  if (!current) {
+    return battleState;
+  }
+
+  events.push({ type: 'turnStart', combatantId: current.instanceId });
+  const { pokemon, skipTurn } = processStartOfTurnEffects(current);
+  const newBattleState = updateCombatant(battleState, pokemon);
+
+  // Effects like freeze cost the Pokemon its turn; the turn still ends so effects tick and decay
+  if (skipTurn) {
+    events.push({ type: 'turnSkipped', combatantId: current.instanceId });
+    return processEndTurn(newBattleState, events);
+  }
+
+  return updateCombatant(newBattleState, startPokemonTurn(pokemon));
+}
+
+// Emit a faint event for every combatant knocked out between the two states
+function emitFaints(before: BattleState, after: BattleState, events: BattleEvent[]): void {
+  for (const pokemon of [...after.playerParty, ...after.enemies]) {
+    const previous = findCombatant(before, pokemon.instanceId);
+    if (previous && previous.currentHp > 0 && pokemon.currentHp <= 0) {
+      events.push({ type: 'fainted', combatantId: pokemon.instanceId });
+    }
+  }
+}
+
 export function processTurn(
   battleState: BattleState,
   action: Action
 ): BattleState {
+  return resolveTurn(battleState, action).state;
+}
+
+// Like processTurn, but also reports everything that happened along the way
+export function resolveTurn(
+  battleState: BattleState,
+  action: Action
+): { state: BattleState; events: BattleEvent[] } {
+  const events: BattleEvent[] = [];
   if (battleState.result !== 'ongoing') {
-    return battleState;
+    return { state: battleState, events };
   }
 
-  let newBattleState = { ...battleState };
-  let currentCombatant = newBattleState.turnOrder[newBattleState.currentTurnIndex];
+  let newBattleState = battleState;
+  const currentCombatant = newBattleState.turnOrder[newBattleState.currentTurnIndex];
   
   if (!currentCombatant || currentCombatant.currentHp <= 0) {
     // Skip dead combatants
-    return advanceToNextTurn(newBattleState);
-  }
-
-  // Check if we need to start a new round
-  const allActed = newBattleState.turnOrder.every(p => 
-    p.currentHp <= 0 || newBattleState.roundActed.has(p.pokemonId)
-  );
-  
-  if (allActed) {
-    newBattleState = startNewRound(newBattleState);
-    // Re-get current combatant after round reset
-    const newCurrent = newBattleState.turnOrder[newBattleState.currentTurnIndex];
-    if (!newCurrent || newCurrent.currentHp <= 0) {
-      return advanceToNextTurn(newBattleState);
-    }
+    return { state: advanceToNextTurn(newBattleState, events), events };
   }
 
-  // Start turn (regenerate mana, draw cards)
-  if (!newBattleState.roundActed.has(currentCombatant.pokemonId)) {
-    const updatedCombatant = startPokemonTurn(currentCombatant);
-    
-    // Update in appropriate array
-    if (updatedCombatant.playerId) {
-      const index = newBattleState.playerParty.findIndex(p => p.pokemonId === updatedCombatant.pokemonId);
-      if (index >= 0) {
-        newBattleState.playerParty[index] = updatedCombatant;
-      }
-    } else {
-      const index = newBattleState.enemies.findIndex(e => e.pokemonId === updatedCombatant.pokemonId);
-      if (index >= 0) {
-        newBattleState.enemies[index] = updatedCombatant;
-      }
-    }
-    
-    // Update turn order
-    const turnOrderIndex = newBattleState.turnOrder.findIndex(p => p.pokemonId === updatedCombatant.pokemonId);
-    if (turnOrderIndex >= 0) {
-      newBattleState.turnOrder[turnOrderIndex] = updatedCombatant;
-    }
-    
-    // Update currentCombatant reference to use the updated one
-    currentCombatant = updatedCombatant;
-  }
-
-  // Process action - use the most up-to-date combatant state
+  // Process action - the turn was already started when it was advanced to
   if (action.type === 'playCard') {
-    newBattleState = processPlayCard(newBattleState, action, currentCombatant);
+    newBattleState = processPlayCard(newBattleState, action, events, currentCombatant);
   } else if (action.type === 'endTurn') {
-    newBattleState = processEndTurn(newBattleState);
+    newBattleState = processEndTurn(newBattleState, events);
   }
 
   // Check battle end
-  newBattleState.result = checkBattleEnd(newBattleState);
+  newBattleState = { ...newBattleState, result: checkBattleEnd(newBattleState) };
+  if (newBattleState.result !== 'ongoing' && !events.some(e => e.type === 'battleEnded')) {
+    events.push({ type: 'battleEnded', result: newBattleState.result });
+  }
 
-  return newBattleState;
+  return { state: newBattleState, events };
 }
 
 function processPlayCard(
   battleState: BattleState,
   action: Action & { type: 'playCard' },
+  events: BattleEvent[],
   currentCombatantOverride?: PokemonCombatState
 ): BattleState {
   // Use override if provided (most up-to-date state), otherwise get from turn order
   const currentCombatant = currentCombatantOverride || battleState.turnOrder[battleState.currentTurnIndex];
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:227',message:'processPlayCard entry',data:{casterId:action.casterId,cardId:action.cardId,currentCombatantMana:currentCombatant?.currentMana,currentCombatantHand:currentCombatant?.hand,currentCombatantHandLength:currentCombatant?.hand.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'A'})}).catch(()=>{});
-  // #endregion
-  if (!currentCombatant || currentCombatant.pokemonId !== action.casterId) {
-    return battleState; // Invalid action
-  }
-
   const card = getCardDefinition(action.cardId);
-  if (!card) {
-    return battleState; // Invalid card
+  if (!currentCombatant || !card || !validateAction(battleState, action).valid) {
+    return battleState; // Invalid action
   }
 
-  // Check if can afford
-  if (currentCombatant.currentMana < card.cost) {
-    return battleState; // Can't afford
-  }
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:241',message:'Card affordability check',data:{cardName:card.name,cardCost:card.cost,currentMana:currentCombatant.currentMana,canAfford:currentCombatant.currentMana >= card.cost},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'B'})}).catch(()=>{});
-  // #endregion
-
-  // Get targets
-  const targets = getCardTargets(card, currentCombatant, battleState, action.targetIds);
-  if (targets.length === 0 && card.effect.type !== 'block' && card.effect.target !== 'all') {
-    return battleState; // No valid targets
-  }
+  // Pay for the card and take it out of hand first, so its effects can't draw, discard or exhaust it
+  const cardIndex = currentCombatant.hand.indexOf(action.cardId);
+  let newBattleState = updateCombatant(battleState, {
+    ...currentCombatant,
+    currentMana: currentCombatant.currentMana - card.cost,
+    hand: currentCombatant.hand.filter((_, i) => i !== cardIndex),
+  });
 
-  // Resolve card effect
-  let newBattleState = resolveCardEffect(card, currentCombatant, targets, battleState);
-
-  // Update caster's mana and hand (use currentCombatant's hand/mana, not updatedCaster's)
-  const casterParty = currentCombatant.playerId ? newBattleState.playerParty : newBattleState.enemies;
-  const casterIndex = casterParty.findIndex(p => p.pokemonId === action.casterId);
-  if (casterIndex >= 0) {
-    // Get the updated caster (block may have been updated by card effect)
-    const updatedCaster = casterParty[casterIndex];
-    
-    // Get the most up-to-date combatant from battleState (hand may have changed from previous actions)
-  const latestCombatant = casterParty[casterIndex];
-  
-  // Check if card is still in hand (it might have been played already in a previous action)
-  if (!latestCombatant.hand.includes(action.cardId)) {
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:264',message:'Card not in hand - skipping',data:{cardId:action.cardId,hand:latestCombatant.hand,handLength:latestCombatant.hand.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'I'})}).catch(()=>{});
-    // #endregion
-    return battleState; // Card already played or not in hand, skip this action
-  }
-  
-  // Use latestCombatant's hand (most up-to-date state) to find the card
-  // Use currentCombatant's mana (source of truth after regeneration) to calculate new mana
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:264',message:'Before moveCardToDiscard',data:{cardId:action.cardId,handBefore:latestCombatant.hand,handLength:latestCombatant.hand.length,cardInHand:latestCombatant.hand.includes(action.cardId),currentCombatantMana:currentCombatant.currentMana,latestCombatantMana:latestCombatant.currentMana,cardCost:card.cost},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'C'})}).catch(()=>{});
-  // #endregion
-  const { hand, discard } = moveCardToDiscard(
-    latestCombatant.hand,  // Use latest to check if card exists
-    action.cardId,
-    currentCombatant.discard  // Use currentCombatant's discard
-  );
-    
-    // Calculate new mana from currentCombatant's mana (source of truth after regeneration)
-    const newMana = currentCombatant.currentMana - card.cost;
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:271',message:'Mana calculation',data:{currentCombatantMana:currentCombatant.currentMana,latestCombatantMana:latestCombatant.currentMana,cardCost:card.cost,calculatedNewMana:newMana,updatedCasterMana:updatedCaster.currentMana},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'D'})}).catch(()=>{});
-    // #endregion
-    
-    // Update mana, hand, and discard - preserve block and other stats from card effect
-    casterParty[casterIndex] = {
+  // Resolve card effects in order
+  events.push({ type: 'cardPlayed', casterId: action.casterId, cardId: action.cardId, targetIds: action.targetIds ?? [] });
+  const beforeEffects = newBattleState;
+  const caster = findCombatant(newBattleState, action.casterId) ?? currentCombatant;
+  newBattleState = syncTurnOrder(resolveCardEffect(card, caster, newBattleState, action.targetIds, events));
+  emitFaints(beforeEffects, newBattleState, events);
+
+  // The played card goes to the discard pile once it has resolved, or to the exhaust pile if it exhausts
+  const updatedCaster = findCombatant(newBattleState, action.casterId);
+  if (updatedCaster) {
+    const pile = hasKeyword(action.cardId, 'exhaust') ? 'exhaust' : 'discard';
+    newBattleState = updateCombatant(newBattleState, {
       ...updatedCaster,
-      currentMana: newMana,
-      hand,
-      discard,
-    };
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:279',message:'After updating caster',data:{finalMana:casterParty[casterIndex].currentMana,handLength:casterParty[casterIndex].hand.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-    // #endregion
-    
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'battle.ts:250',message:'Updated caster after card play',data:{casterId:action.casterId,block:casterParty[casterIndex].block,mana:casterParty[casterIndex].currentMana},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'D'})}).catch(()=>{});
-    // #endregion
-    
-    // Update turn order with the updated caster
-    const turnOrderIndex = newBattleState.turnOrder.findIndex(p => p.pokemonId === currentCombatant.pokemonId);
-    if (turnOrderIndex >= 0) {
-      newBattleState.turnOrder[turnOrderIndex] = casterParty[casterIndex];
-    }
+      [pile]: [...updatedCaster[pile], action.cardId],
+    });
   }
 
   return newBattleState;
 }
 
-function processEndTurn(battleState: BattleState): BattleState {
+function processEndTurn(battleState: BattleState, events: BattleEvent[]): BattleState {
   const currentCombatant = battleState.turnOrder[battleState.currentTurnIndex];
   if (!currentCombatant) {
-    return advanceToNextTurn(battleState);
+    return advanceToNextTurn(battleState, events);
   }
 
   // Process end-of-turn status effects
-  let newBattleState = { ...battleState };
-  const casterParty = currentCombatant.playerId ? newBattleState.playerParty : newBattleState.enemies;
-  const casterIndex = casterParty.findIndex(p => p.pokemonId === currentCombatant.pokemonId);
+  let newBattleState = battleState;
+  const caster = findCombatant(newBattleState, currentCombatant.instanceId);
   
-  if (casterIndex >= 0) {
-    const updatedCaster = processEndOfTurnStatuses(casterParty[casterIndex]);
-    casterParty[casterIndex] = updatedCaster;
-    
-    // Update turn order
-    const turnOrderIndex = newBattleState.turnOrder.findIndex(p => p.pokemonId === currentCombatant.pokemonId);
-    if (turnOrderIndex >= 0) {
-      newBattleState.turnOrder[turnOrderIndex] = updatedCaster;
-    }
+  if (caster) {
+    // Discard the hand, minus any retained cards, then tick end-of-turn effects. The intent is spent.
+    const { hand, discard, exhaust } = discardHand(caster.hand, caster.discard, caster.exhaust, caster.retain);
+    const beforeStatuses = newBattleState;
+    newBattleState = updateCombatant(
+      newBattleState,
+      processEndOfTurnStatuses({ ...caster, hand, discard, exhaust, retain: 0, intent: undefined }, events)
+    );
+    emitFaints(beforeStatuses, newBattleState, events);
   }
 
-  // Mark as acted this round
-  newBattleState.roundActed.add(currentCombatant.pokemonId);
-
-  // Check battle end after status effects
-  newBattleState.result = checkBattleEnd(newBattleState);
+  // Mark as acted this round, then check battle end after status effects
+  newBattleState = {
+    ...newBattleState,
+    roundActed: new Set(newBattleState.roundActed).add(currentCombatant.instanceId),
+  };
+  newBattleState = { ...newBattleState, result: checkBattleEnd(newBattleState) };
   if (newBattleState.result !== 'ongoing') {
+    events.push({ type: 'battleEnded', result: newBattleState.result });
     return newBattleState;
   }
 
-  return advanceToNextTurn(newBattleState);
+  return advanceToNextTurn(newBattleState, events);
 }
 
-function advanceToNextTurn(battleState: BattleState): BattleState {
+function advanceToNextTurn(battleState: BattleState, events: BattleEvent[]): BattleState {
   let nextIndex = battleState.currentTurnIndex + 1;
   
   // Find next alive combatant that hasn't acted
   while (nextIndex < battleState.turnOrder.length) {
     const next = battleState.turnOrder[nextIndex];
-    if (next.currentHp > 0 && !battleState.roundActed.has(next.pokemonId)) {
-      return {
+    if (next.currentHp > 0 && !battleState.roundActed.has(next.instanceId)) {
+      return startCurrentTurn({
         ...battleState,
         currentTurnIndex: nextIndex,
-      };
+      }, events);
     }
     nextIndex++;
   }
 
   // If we've gone through everyone, start new round
-  return startNewRound(battleState);
+  return startCurrentTurn(startNewRound(battleState, events), events);
 }
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { createCampaignState, createCardRewards, addCardToDeck, applyEvolutions, recordBattleResult, getPartyMemberMaxHp, upgradeCard, removeCard, MIN_DECK_SIZE,
+  resolveEventChoice, isEventChoiceAvailable, STARTING_CURRENCY, getEncounterDifficulty } from './campaign';
+import { createBattleState } from './battle';
+import { getStarterDeck, getRewardPool } from '../config/cards';
+import { getEvent } from '../config/events';
+import { getPokemonStats } from '../config/pokemon';
+import type { PokemonId } from '../config/pokemon';
+import type { CampaignState } from './types';
+
+function createTestCampaign(): CampaignState {
+  return createCampaignState([
+    { id: '1', name: 'Player 1', pokemonId: 'charmander' as PokemonId },
+    { id: '2', name: 'Player 2', pokemonId: 'pikachu' as PokemonId },
+  ]);
+}
+
+describe('Persistent decks', () => {
+  it('should start each party member with their starter deck', () => {
+    const campaign = createTestCampaign();
+
+    expect(campaign.party[0].deck).toEqual(getStarterDeck('charmander'));
+    expect(campaign.party[1].deck).toEqual(getStarterDeck('pikachu'));
+  });
+
+  it('should build battle decks from the persisted deck', () => {
+    const campaign = addCardToDeck(createTestCampaign(), 0, 'flamethrower_1');
+    const battleState = createBattleState(campaign.party, [{ pokemonId: 'magnemite' as PokemonId }]);
+    const player = battleState.playerParty[0];
+
+    const battleCards = [...player.hand, ...player.deck, ...player.discard];
+    expect(battleCards.sort()).toEqual([...campaign.party[0].deck].sort());
+  });
+
+  it('should upgrade deck cards when a Pokemon evolves', () => {
+    const campaign = addCardToDeck(createTestCampaign(), 0, 'flamethrower_1');
+    const evolved = applyEvolutions(campaign, [{ from: 'charmander', to: 'charmeleon' }]);
+
+    expect(evolved.party[0].pokemonId).toBe('charmeleon');
+    expect(evolved.party[0].deck.filter(id => id === 'flamethrower_2')).toHaveLength(2);
+    expect(evolved.party[0].deck.some(id => id.endsWith('_1'))).toBe(false);
+    expect(evolved.party[1].deck).toEqual(campaign.party[1].deck);
+  });
+});
+
+describe('Card rewards', () => {
+  it('should offer each party member three distinct cards from their pool', () => {
+    const campaign = createTestCampaign();
+    const { rewards } = createCardRewards(campaign);
+
+    expect(rewards).toHaveLength(2);
+    rewards.forEach(reward => {
+      const pool = getRewardPool(campaign.party[reward.partyIndex].pokemonId);
+      expect(reward.options).toHaveLength(3);
+      expect(new Set(reward.options).size).toBe(3);
+      reward.options.forEach(cardId => expect(pool).toContain(cardId));
+    });
+  });
+
+  it('should offer the same rewards from the same RNG state and advance it', () => {
+    const campaign = createCampaignState([{ id: '1', name: 'Player 1', pokemonId: 'charmander' as PokemonId }], undefined, 99);
+
+    const first = createCardRewards(campaign);
+    const second = createCardRewards(campaign);
+
+    expect(first.rewards).toEqual(second.rewards);
+    expect(first.campaign.rng).not.toBe(campaign.rng);
+  });
+
+  it('should add the picked card to only that party member\'s deck', () => {
+    const campaign = createTestCampaign();
+    const updated = addCardToDeck(campaign, 1, 'thunderbolt_1');
+
+    expect(updated.party[1].deck).toEqual([...campaign.party[1].deck, 'thunderbolt_1']);
+    expect(updated.party[0].deck).toEqual(campaign.party[0].deck);
+  });
+});
+
+describe('Persistent party HP', () => {
+  it('should start battles from the party\'s current HP', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].currentHp = 20;
+    const battleState = createBattleState(campaign.party, [{ pokemonId: 'magnemite' as PokemonId }]);
+
+    expect(battleState.playerParty[0].currentHp).toBe(20);
+    expect(battleState.playerParty[1].currentHp).toBe(battleState.playerParty[1].maxHp);
+  });
+
+  it('should apply permanent bonuses in battle', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].bonuses = { maxHp: 10, maxMana: 1, manaRegen: 0, speed: 5 };
+    const battleState = createBattleState(campaign.party, [{ pokemonId: 'magnemite' as PokemonId }]);
+    const player = battleState.playerParty[0];
+
+    expect(player.maxHp).toBe(getPartyMemberMaxHp(campaign.party[0]));
+    expect(player.maxMana).toBe(getPokemonStats('charmander').maxMana + 1);
+    expect(player.speed).toBe(getPokemonStats('charmander').speed + 5);
+  });
+
+  it('should write HP back after a battle, reviving fainted Pokemon with 1 HP', () => {
+    const campaign = createTestCampaign();
+    const battleState = createBattleState(campaign.party, [{ pokemonId: 'magnemite' as PokemonId }]);
+    battleState.playerParty[0].currentHp = 12;
+    battleState.playerParty[1].currentHp = 0;
+
+    const updated = recordBattleResult(campaign, battleState);
+
+    expect(updated.party[0].currentHp).toBe(12);
+    expect(updated.party[1].currentHp).toBe(1);
+  });
+
+  it('should keep damage taken when evolving', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].currentHp = 30;
+    const evolved = applyEvolutions(campaign, [{ from: 'charmander', to: 'charmeleon' }]);
+
+    const hpGain = getPokemonStats('charmeleon').maxHp - getPokemonStats('charmander').maxHp;
+    expect(evolved.party[0].currentHp).toBe(30 + hpGain);
+  });
+});
+
+describe('Deck services', () => {
+  it('should upgrade a card to its next tier', () => {
+    const campaign = createTestCampaign();
+    const deckIndex = campaign.party[0].deck.indexOf('ember_1');
+
+    const updated = upgradeCard(campaign, 0, deckIndex);
+
+    expect(updated.party[0].deck[deckIndex]).toBe('ember_2');
+    expect(updated.party[0].deck).toHaveLength(campaign.party[0].deck.length);
+  });
+
+  it('should not upgrade a card that is already at its top tier', () => {
+    const campaign = addCardToDeck(createTestCampaign(), 1, 'thundershock_2');
+    const deckIndex = campaign.party[1].deck.length - 1;
+
+    expect(upgradeCard(campaign, 1, deckIndex)).toBe(campaign);
+  });
+
+  it('should remove a card from the deck', () => {
+    const campaign = createTestCampaign();
+
+    const updated = removeCard(campaign, 0, 0);
+
+    expect(updated.party[0].deck).toEqual(campaign.party[0].deck.slice(1));
+  });
+
+  it('should not shrink a deck below the minimum size', () => {
+    let campaign = createTestCampaign();
+    for (let i = 0; i < 20; i++) {
+      campaign = removeCard(campaign, 0, 0);
+    }
+
+    expect(campaign.party[0].deck).toHaveLength(MIN_DECK_SIZE);
+  });
+});
+
+describe('Events', () => {
+  it('should heal the party up to max HP', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].currentHp = 10;
+
+    const { campaign: updated } = resolveEventChoice(campaign, 'abandonedSupplies', 0);
+
+    expect(updated.party[0].currentHp).toBe(25);
+    expect(updated.party[1].currentHp).toBe(getPartyMemberMaxHp(updated.party[1]));
+  });
+
+  it('should grant permanent bonuses that carry into battle', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].currentHp = 10;
+
+    const { campaign: updated } = resolveEventChoice(campaign, 'abandonedSupplies', 3);
+    const battleState = createBattleState(updated.party, [{ pokemonId: 'magnemite' as PokemonId }]);
+
+    expect(updated.party[0].bonuses.maxHp).toBe(5);
+    expect(updated.party[0].currentHp).toBe(15);
+    expect(battleState.playerParty[0].maxHp).toBe(getPokemonStats('charmander').maxHp + 5);
+    expect(battleState.playerParty[1].maxHp).toBe(getPokemonStats('pikachu').maxHp + 5);
+    expect(battleState.playerParty[1].currentHp).toBe(battleState.playerParty[1].maxHp);
+  });
+
+  it('should give every party member a card from their reward pool', () => {
+    const campaign = createTestCampaign();
+
+    const { campaign: updated } = resolveEventChoice(campaign, 'abandonedSupplies', 1);
+
+    updated.party.forEach((member, i) => {
+      expect(member.deck).toHaveLength(campaign.party[i].deck.length + 1);
+      expect(getRewardPool(member.pokemonId)).toContain(member.deck[member.deck.length - 1]);
+    });
+  });
+
+  it('should gain and spend currency', () => {
+    const campaign = createTestCampaign();
+
+    const gained = resolveEventChoice(campaign, 'abandonedSupplies', 2).campaign;
+    expect(gained.currency).toBe(STARTING_CURRENCY + 60);
+
+    const spent = resolveEventChoice(gained, 'rocketGrunt', 0).campaign;
+    expect(spent.currency).toBe(STARTING_CURRENCY + 10);
+  });
+
+  it('should not resolve a choice whose conditions are not met', () => {
+    const campaign = { ...createTestCampaign(), currency: 10 };
+    const choice = getEvent('rocketGrunt')!.choices[0];
+
+    expect(isEventChoiceAvailable(campaign, choice)).toBe(false);
+    expect(resolveEventChoice(campaign, 'rocketGrunt', 0).campaign).toBe(campaign);
+  });
+
+  it('should allow an HP cost when every party member has at least that much HP', () => {
+    const campaign = createTestCampaign();
+    const choice = getEvent('psychicEcho')!.choices[1];
+
+    campaign.party[0].currentHp = 10;
+    expect(isEventChoiceAvailable(campaign, choice)).toBe(true);
+    campaign.party[0].currentHp = 9;
+    expect(isEventChoiceAvailable(campaign, choice)).toBe(false);
+  });
+
+  it('should lose HP without dropping below 1', () => {
+    const campaign = createTestCampaign();
+    campaign.party[0].currentHp = 11;
+
+    const { campaign: updated } = resolveEventChoice(campaign, 'psychicEcho', 1);
+
+    expect(updated.party[0].currentHp).toBe(1);
+    expect(updated.party[0].deck).toHaveLength(campaign.party[0].deck.length + 1);
+  });
+
+  it('should return the encounter for a fight outcome', () => {
+    const campaign = createTestCampaign();
+
+    const resolution = resolveEventChoice(campaign, 'rocketGrunt', 1);
+
+    expect(resolution.encounterId).toBe('rocketGrunt');
+    expect(resolution.campaign).toEqual(campaign);
+  });
+});
+
+describe('Difficulty', () => {
+  it('should raise the run\'s difficulty to a boss\'s minimum', () => {
+    const campaign = createCampaignState([{ id: '1', name: 'Player 1', pokemonId: 'charmander' as PokemonId }], undefined, 1, 'easy');
+
+    expect(getEncounterDifficulty(campaign, 'electricSwarm')).toBe('easy');
+    expect(getEncounterDifficulty(campaign, 'mewtwo')).toBe('hard');
+  });
+});
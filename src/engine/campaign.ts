@@ -1,24 +1,73 @@
-import type { CampaignState, GameState } from './types';
+import type { BattleState, CampaignState, CardReward, PartyBonuses, PartyMember } from './types';
 import { CAMPAIGN_MAP, getNode } from '../config/campaign';
+import type { CampaignMap } from '../config/campaign';
 import { getEvolutionCheckpoint } from '../config/evolution';
+import { getEvent } from '../config/events';
+import type { EventChoice, EventCondition, EventOutcome } from '../config/events';
 import type { PokemonId } from '../config/pokemon';
+import { DEFAULT_DIFFICULTY, getHarderDifficulty } from '../config/difficulty';
+import type { Difficulty } from '../config/difficulty';
+import { getEncounter } from '../config/encounters';
+import { getPokemonStats } from '../config/pokemon';
+import { getStarterDeck, getRewardPool, getUpgradedCardId } from '../config/cards';
+import { shuffle } from './deck';
+import { createRng, SeededRandom } from './random';
 
 export function createCampaignState(
-  players: Array<{ id: string; name: string; pokemonId: PokemonId }>
+  players: Array<{ id: string; name: string; pokemonId: PokemonId }>,
+  map: CampaignMap = CAMPAIGN_MAP,
+  seed: number = Date.now(),
+  difficulty: Difficulty = DEFAULT_DIFFICULTY
 ): CampaignState {
   return {
-    currentNodeId: CAMPAIGN_MAP.startNodeId,
+    map,
+    rng: createRng(seed),
+    difficulty,
+    currentNodeId: map.startNodeId,
     completedNodes: new Set(),
     party: players.map(p => ({
       playerId: p.id,
       playerName: p.name,
       pokemonId: p.pokemonId,
+      currentHp: getPokemonStats(p.pokemonId).maxHp,
+      deck: getStarterDeck(p.pokemonId),
+      bonuses: createPartyBonuses(),
     })),
+    currency: STARTING_CURRENCY,
+  };
+}
+
+export const STARTING_CURRENCY = 50;
+
+export function createPartyBonuses(): PartyBonuses {
+  return { maxHp: 0, maxMana: 0, manaRegen: 0, speed: 0 };
+}
+
+export function getPartyMemberMaxHp(member: PartyMember): number {
+  return getPokemonStats(member.pokemonId).maxHp + member.bonuses.maxHp;
+}
+
+// Write the party's end-of-battle HP back to the campaign after a victory, and carry on
+// from the battle's RNG. Pokemon that fainted are revived with 1 HP.
+export function recordBattleResult(
+  campaignState: CampaignState,
+  battleState: BattleState
+): CampaignState {
+  return {
+    ...campaignState,
+    rng: battleState.rng,
+    party: campaignState.party.map((p, i) => {
+      const combatant = battleState.playerParty[i];
+      if (!combatant) {
+        return p;
+      }
+      return { ...p, currentHp: Math.max(1, combatant.currentHp) };
+    }),
   };
 }
 
 export function getAvailablePaths(campaignState: CampaignState): string[] {
-  const currentNode = getNode(campaignState.currentNodeId);
+  const currentNode = getNode(campaignState.currentNodeId, campaignState.map);
   if (!currentNode) {
     return [];
   }
@@ -29,7 +78,7 @@ export function progressToNode(
   campaignState: CampaignState,
   nodeId: string
 ): CampaignState {
-  const node = getNode(nodeId);
+  const node = getNode(nodeId, campaignState.map);
   if (!node) {
     return campaignState; // Invalid node
   }
@@ -48,7 +97,8 @@ export function checkEvolutionCheckpoint(
   campaignState: CampaignState,
   nodeId: string
 ): Array<{ from: PokemonId; to: PokemonId }> {
-  const checkpoint = getEvolutionCheckpoint(nodeId);
+  const node = getNode(nodeId, campaignState.map);
+  const checkpoint = node ? getEvolutionCheckpoint(node.checkpointId ?? node.id) : undefined;
   if (!checkpoint) {
     return [];
   }
@@ -76,12 +126,200 @@ export function applyEvolutions(
     ...campaignState,
     party: campaignState.party.map(p => {
       const evolvedTo = evolutionMap.get(p.pokemonId);
-      return evolvedTo ? { ...p, pokemonId: evolvedTo } : p;
+      if (!evolvedTo) {
+        return p;
+      }
+      // Evolving upgrades every card in the deck to the new stage's version,
+      // and the extra max HP is gained as current HP too
+      const hpGain = getPokemonStats(evolvedTo).maxHp - getPokemonStats(p.pokemonId).maxHp;
+      return {
+        ...p,
+        pokemonId: evolvedTo,
+        currentHp: p.currentHp + hpGain,
+        deck: p.deck.map(cardId => getUpgradedCardId(cardId) ?? cardId),
+      };
     }),
   };
 }
 
+// The run's difficulty, raised to the encounter's minimum (bosses always play well)
+export function getEncounterDifficulty(campaignState: CampaignState, encounterId: string): Difficulty {
+  const minDifficulty = getEncounter(encounterId)?.minDifficulty;
+  return minDifficulty ? getHarderDifficulty(campaignState.difficulty, minDifficulty) : campaignState.difficulty;
+}
+
 export function getCurrentEncounter(campaignState: CampaignState): string | undefined {
-  const currentNode = getNode(campaignState.currentNodeId);
+  const currentNode = getNode(campaignState.currentNodeId, campaignState.map);
   return currentNode?.encounterId;
 }
+
+// Smallest deck a purge may leave - enough to draw a full opening hand
+export const MIN_DECK_SIZE = 5;
+
+export function canUpgradeCard(cardId: string): boolean {
+  return getUpgradedCardId(cardId) !== undefined;
+}
+
+export function canRemoveCard(member: PartyMember): boolean {
+  return member.deck.length > MIN_DECK_SIZE;
+}
+
+// Replace the card at deckIndex with its next tier (smith nodes)
+export function upgradeCard(
+  campaignState: CampaignState,
+  partyIndex: number,
+  deckIndex: number
+): CampaignState {
+  const member = campaignState.party[partyIndex];
+  const upgradedId = member ? getUpgradedCardId(member.deck[deckIndex]) : undefined;
+  if (!member || !upgradedId) {
+    return campaignState; // Invalid or already fully upgraded card
+  }
+
+  return {
+    ...campaignState,
+    party: campaignState.party.map((p, i) =>
+      i === partyIndex ? { ...p, deck: p.deck.map((cardId, j) => (j === deckIndex ? upgradedId : cardId)) } : p
+    ),
+  };
+}
+
+// Remove the card at deckIndex from the deck (purge nodes)
+export function removeCard(
+  campaignState: CampaignState,
+  partyIndex: number,
+  deckIndex: number
+): CampaignState {
+  const member = campaignState.party[partyIndex];
+  if (!member || deckIndex < 0 || deckIndex >= member.deck.length || !canRemoveCard(member)) {
+    return campaignState; // Invalid card or deck already at minimum size
+  }
+
+  return {
+    ...campaignState,
+    party: campaignState.party.map((p, i) =>
+      i === partyIndex ? { ...p, deck: p.deck.filter((_, j) => j !== deckIndex) } : p
+    ),
+  };
+}
+
+// Offer each party member a choice of cards from their Pokemon's reward pool
+export function createCardRewards(
+  campaignState: CampaignState,
+  optionCount: number = 3
+): { rewards: CardReward[]; campaign: CampaignState } {
+  let rng = campaignState.rng;
+  const rewards = campaignState.party
+    .map((p, partyIndex) => {
+      const { shuffled, rng: newRng } = shuffle(getRewardPool(p.pokemonId), rng);
+      rng = newRng;
+      return { partyIndex, options: shuffled.slice(0, optionCount) };
+    })
+    .filter(reward => reward.options.length > 0);
+
+  return {
+    rewards,
+    campaign: { ...campaignState, rng },
+  };
+}
+
+export function addCardToDeck(
+  campaignState: CampaignState,
+  partyIndex: number,
+  cardId: string
+): CampaignState {
+  return {
+    ...campaignState,
+    party: campaignState.party.map((p, i) =>
+      i === partyIndex ? { ...p, deck: [...p.deck, cardId] } : p
+    ),
+  };
+}
+
+// The outcome of an event choice. A fight outcome leaves the battle for the caller to start.
+export interface EventResolution {
+  campaign: CampaignState;
+  encounterId?: string;
+}
+
+function meetsCondition(campaignState: CampaignState, condition: EventCondition): boolean {
+  switch (condition.type) {
+    case 'minCurrency':
+      return campaignState.currency >= condition.amount;
+    case 'minHp':
+      return campaignState.party.every(p => p.currentHp >= condition.amount);
+  }
+}
+
+export function isEventChoiceAvailable(campaignState: CampaignState, choice: EventChoice): boolean {
+  return (choice.conditions || []).every(condition => meetsCondition(campaignState, condition));
+}
+
+function applyEventOutcome(campaignState: CampaignState, outcome: EventOutcome): CampaignState {
+  switch (outcome.type) {
+    case 'heal':
+      return {
+        ...campaignState,
+        party: campaignState.party.map(p => ({
+          ...p,
+          currentHp: Math.min(getPartyMemberMaxHp(p), p.currentHp + outcome.amount),
+        })),
+      };
+    case 'loseHp':
+      return {
+        ...campaignState,
+        party: campaignState.party.map(p => ({
+          ...p,
+          currentHp: Math.max(1, p.currentHp - outcome.amount),
+        })),
+      };
+    case 'gainCard': {
+      const random = new SeededRandom(campaignState.rng);
+      const party = campaignState.party.map(p => {
+        const cardId = outcome.cardId ?? random.pick(getRewardPool(p.pokemonId));
+        return cardId ? { ...p, deck: [...p.deck, cardId] } : p;
+      });
+      return {
+        ...campaignState,
+        party,
+        rng: random.getState(),
+      };
+    }
+    case 'currency':
+      return {
+        ...campaignState,
+        currency: Math.max(0, campaignState.currency + outcome.amount),
+      };
+    case 'bonus':
+      return {
+        ...campaignState,
+        party: campaignState.party.map(p => ({
+          ...p,
+          bonuses: { ...p.bonuses, [outcome.stat]: p.bonuses[outcome.stat] + outcome.amount },
+          // Extra max HP comes filled in
+          currentHp: outcome.stat === 'maxHp' ? p.currentHp + outcome.amount : p.currentHp,
+        })),
+      };
+    case 'fight':
+      return campaignState; // Started by the caller via EventResolution.encounterId
+  }
+}
+
+export function resolveEventChoice(
+  campaignState: CampaignState,
+  eventId: string,
+  choiceIndex: number
+): EventResolution {
+  const choice = getEvent(eventId)?.choices[choiceIndex];
+  if (!choice || !isEventChoiceAvailable(campaignState, choice)) {
+    return { campaign: campaignState }; // Invalid or unavailable choice
+  }
+
+  const campaign = choice.outcomes.reduce(applyEventOutcome, campaignState);
+  const fight = choice.outcomes.find(outcome => outcome.type === 'fight');
+
+  return {
+    campaign,
+    encounterId: fight?.type === 'fight' ? fight.encounterId : undefined,
+  };
+}
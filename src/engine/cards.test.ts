@@ -0,0 +1,346 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState } from './battle';
+import { resolveCardEffect, getTargetingEffect, getValidTargets } from './cards';
+import { applyTypeMatchup } from './damage';
+import { getStatusStacks } from './status';
+import { getCardDefinition, getStarterDeck, getRewardPool } from '../config/cards';
+import type { CardDefinition } from '../config/cards';
+import { POKEMON_STATS } from '../config/pokemon';
+import type { PokemonId } from '../config/pokemon';
+import type { BattleEvent, BattleState } from './types';
+
+function createSwarmBattle(): BattleState {
+  return createBattleState(
+    [{ pokemonId: 'pikachu' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+    [
+      { pokemonId: 'magnemite' as PokemonId },
+      { pokemonId: 'magnemite' as PokemonId },
+    ]
+  );
+}
+
+function getCard(cardId: string): CardDefinition {
+  const card = getCardDefinition(cardId);
+  if (!card) throw new Error(`Missing card ${cardId}`);
+  return card;
+}
+
+describe('Multi-effect cards', () => {
+  it('should apply every effect of a single-target card to the chosen target', () => {
+    const battleState = createSwarmBattle();
+    const target = battleState.enemies[1];
+
+    const newState = resolveCardEffect(getCard('thunderbolt_1'), battleState.playerParty[0], battleState, [target.instanceId]);
+
+    // Not very effective against Magnemite, even with STAB: 10 * 1.25 * 0.5
+    expect(newState.enemies[1].currentHp).toBe(target.currentHp - 6);
+    expect(getStatusStacks(newState.enemies[1], 'paralyze')).toBe(1);
+    expect(newState.enemies[0].currentHp).toBe(newState.enemies[0].maxHp);
+    expect(getStatusStacks(newState.enemies[0], 'paralyze')).toBe(0);
+  });
+
+  it('should apply every effect of an area card to all enemies', () => {
+    const battleState = createSwarmBattle();
+
+    const newState = resolveCardEffect(getCard('flamethrower_1'), battleState.playerParty[0], battleState);
+
+    for (const enemy of newState.enemies) {
+      expect(enemy.currentHp).toBe(enemy.maxHp - 6);
+      expect(getStatusStacks(enemy, 'burn')).toBe(1);
+    }
+  });
+
+  it('should skip fainted enemies with an area card', () => {
+    const battleState = createSwarmBattle();
+    battleState.enemies[1].currentHp = 0;
+    const events: BattleEvent[] = [];
+
+    const newState = resolveCardEffect(getCard('flamethrower_1'), battleState.playerParty[0], battleState, undefined, events);
+
+    expect(newState.enemies[1].currentHp).toBe(0);
+    expect(getStatusStacks(newState.enemies[1], 'burn')).toBe(0);
+    expect(events.some(e => 'targetId' in e && e.targetId === battleState.enemies[1].instanceId)).toBe(false);
+  });
+
+  it('should resolve effects in order', () => {
+    const battleState = createSwarmBattle();
+    const burnThenHit: CardDefinition = {
+      id: 'test_burn_then_hit',
+      name: 'Burn Then Hit',
+      cost: 1,
+      pokemonLine: 'pikachu',
+      effects: [
+        { type: 'status', status: 'burn', stacks: 1, target: 'single', side: 'ally' },
+        { type: 'damage', amount: 8, target: 'all', side: 'enemy' },
+      ],
+    };
+    const caster = battleState.playerParty[0];
+
+    // The caster is burned first, so its damage is reduced by 25%
+    const newState = resolveCardEffect(burnThenHit, caster, battleState, [caster.instanceId]);
+
+    expect(newState.enemies[0].currentHp).toBe(newState.enemies[0].maxHp - 6);
+  });
+
+  it('should use the first single-target effect for targeting', () => {
+    expect(getTargetingEffect(getCard('thunderbolt_1'))?.type).toBe('damage');
+    expect(getTargetingEffect(getCard('flamethrower_1'))).toBeUndefined();
+  });
+});
+
+describe('Resource effects', () => {
+  function createTestCard(effects: CardDefinition['effects']): CardDefinition {
+    return { id: 'test_card', name: 'Test Card', cost: 0, pokemonLine: 'pikachu', effects };
+  }
+
+  it('should draw cards into the caster\'s hand', () => {
+    const battleState = createSwarmBattle();
+    const caster = battleState.playerParty[0];
+
+    const newState = resolveCardEffect(createTestCard([{ type: 'draw', amount: 2, target: 'self' }]), caster, battleState);
+
+    expect(newState.playerParty[0].hand).toHaveLength(caster.hand.length + 2);
+    expect(newState.playerParty[0].deck).toHaveLength(caster.deck.length - 2);
+  });
+
+  it('should gain mana up to the maximum', () => {
+    const battleState = createSwarmBattle();
+    battleState.playerParty[0].currentMana = 0;
+    const caster = battleState.playerParty[0];
+
+    const newState = resolveCardEffect(createTestCard([{ type: 'gainMana', amount: 2, target: 'self' }]), caster, battleState);
+    expect(newState.playerParty[0].currentMana).toBe(2);
+
+    const cappedState = resolveCardEffect(createTestCard([{ type: 'gainMana', amount: 99, target: 'self' }]), caster, battleState);
+    expect(cappedState.playerParty[0].currentMana).toBe(caster.maxMana);
+  });
+
+  it('should move discarded cards to the discard pile', () => {
+    const battleState = createSwarmBattle();
+    const caster = battleState.playerParty[0];
+
+    const newState = resolveCardEffect(createTestCard([{ type: 'discard', amount: 2, target: 'self' }]), caster, battleState);
+
+    expect(newState.playerParty[0].hand).toHaveLength(caster.hand.length - 2);
+    expect(newState.playerParty[0].discard).toHaveLength(2);
+  });
+
+  it('should move exhausted cards to the exhaust pile', () => {
+    const battleState = createSwarmBattle();
+    const caster = battleState.playerParty[0];
+
+    const newState = resolveCardEffect(createTestCard([{ type: 'exhaust', amount: 1, target: 'self' }]), caster, battleState);
+
+    expect(newState.playerParty[0].hand).toHaveLength(caster.hand.length - 1);
+    expect(newState.playerParty[0].exhaust).toHaveLength(1);
+    expect(newState.playerParty[0].discard).toHaveLength(0);
+  });
+
+  it('should add to the number of cards retained this turn', () => {
+    const battleState = createSwarmBattle();
+
+    const newState = resolveCardEffect(createTestCard([{ type: 'retain', amount: 2, target: 'self' }]), battleState.playerParty[0], battleState);
+
+    expect(newState.playerParty[0].retain).toBe(2);
+  });
+});
+
+describe('Enemy movesets', () => {
+  it('should build enemy decks from enemy moves only', () => {
+    const enemyIds = (Object.keys(POKEMON_STATS) as PokemonId[]).filter(id => !POKEMON_STATS[id].pokemonLine);
+
+    enemyIds.forEach(pokemonId => {
+      expect(getStarterDeck(pokemonId).length).toBeGreaterThan(0);
+      getStarterDeck(pokemonId).forEach(cardId => expect(getCard(cardId).pokemonLine).toBe('enemy'));
+    });
+  });
+
+  it('should never offer enemy moves as rewards', () => {
+    (Object.keys(POKEMON_STATS) as PokemonId[]).forEach(pokemonId => {
+      getRewardPool(pokemonId).forEach(cardId => expect(getCard(cardId).pokemonLine).not.toBe('enemy'));
+    });
+  });
+
+  it('should aim an enemy\'s area attacks at the party', () => {
+    const battleState = createSwarmBattle();
+
+    const newState = resolveCardEffect(getCard('earthquake'), battleState.enemies[0], battleState);
+
+    // Ground is super effective against Pikachu
+    expect(newState.playerParty[0].currentHp).toBe(battleState.playerParty[0].currentHp - 14);
+    newState.enemies.forEach(enemy => expect(enemy.currentHp).toBe(enemy.maxHp));
+  });
+});
+
+describe('Type matchups', () => {
+  function createMatchup(attacker: PokemonId, defender: PokemonId): BattleState {
+    return createBattleState([{ pokemonId: attacker, playerId: '1', playerName: 'Player 1' }], [{ pokemonId: defender }]);
+  }
+
+  it('should double super effective damage and report it', () => {
+    const battleState = createMatchup('squirtle', 'charmander');
+    const events: BattleEvent[] = [];
+
+    // Water Gun: 6 * 1.25 STAB * 2
+    const newState = resolveCardEffect(getCard('water_gun_1'), battleState.playerParty[0], battleState, [battleState.enemies[0].instanceId], events);
+
+    expect(newState.enemies[0].currentHp).toBe(battleState.enemies[0].currentHp - 15);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'damageDealt', amount: 15, effectiveness: 2 }));
+  });
+
+  it('should only add STAB when the attacker shares the move\'s type', () => {
+    const battleState = createMatchup('charmander', 'rattata');
+    const [charmander, rattata] = [battleState.playerParty[0], battleState.enemies[0]];
+
+    expect(applyTypeMatchup(8, 'fire', charmander, rattata)).toEqual({ amount: 10, effectiveness: 1 });
+    expect(applyTypeMatchup(8, 'electric', charmander, rattata)).toEqual({ amount: 8, effectiveness: 1 });
+    expect(applyTypeMatchup(8, undefined, charmander, rattata)).toEqual({ amount: 8, effectiveness: 1 });
+  });
+
+  it('should multiply the matchups of dual-type defenders', () => {
+    const battleState = createMatchup('pikachu', 'charizard');
+    const [pikachu, charizard] = [battleState.playerParty[0], battleState.enemies[0]];
+
+    // Ground is super effective against fire but not very effective against flying
+    expect(applyTypeMatchup(10, 'ground', pikachu, charizard).effectiveness).toBe(1);
+    // Electric is super effective against flying
+    expect(applyTypeMatchup(10, 'electric', pikachu, charizard).effectiveness).toBe(2);
+    // Rock is super effective against both
+    expect(applyTypeMatchup(10, 'rock', pikachu, charizard).effectiveness).toBe(4);
+  });
+});
+
+describe('Support targeting', () => {
+  it('should shield the caster\'s own side when an enemy casts Wide Guard', () => {
+    const battleState = createSwarmBattle();
+
+    const newState = resolveCardEffect(getCard('wide_guard'), battleState.enemies[0], battleState);
+
+    newState.enemies.forEach(enemy => expect(enemy.block).toBe(5));
+    expect(newState.playerParty[0].block).toBe(0);
+  });
+
+  it('should only offer the caster\'s standing allies as support targets', () => {
+    const battleState = createSwarmBattle();
+    battleState.enemies[1].currentHp = 0;
+
+    expect(getValidTargets(getCard('safeguard'), battleState.enemies[0], battleState)).toEqual([battleState.enemies[0]]);
+    expect(getValidTargets(getCard('helping_hand'), battleState.playerParty[0], battleState)).toEqual([battleState.playerParty[0]]);
+  });
+
+  it('should give block and buffs to the chosen ally', () => {
+    const battleState = createSwarmBattle();
+    const [caster, ally] = battleState.enemies;
+
+    let newState = resolveCardEffect(getCard('safeguard'), caster, battleState, [ally.instanceId]);
+    newState = resolveCardEffect(getCard('helping_hand'), caster, newState, [ally.instanceId]);
+
+    expect(newState.enemies[1].block).toBe(8);
+    expect(newState.enemies[1].buffs).toEqual([{ type: 'attackUp', stacks: 2 }]);
+    expect(newState.enemies[0].block).toBe(0);
+    expect(newState.enemies[0].buffs).toEqual([]);
+  });
+
+  it('should keep a chosen enemy target away from the card\'s ally effects', () => {
+    const battleState = createSwarmBattle();
+    const hitAndShield: CardDefinition = {
+      id: 'test_hit_and_shield',
+      name: 'Hit and Shield',
+      cost: 1,
+      pokemonLine: 'pikachu',
+      effects: [
+        { type: 'damage', amount: 4, target: 'single', side: 'enemy' },
+        { type: 'block', amount: 5, target: 'single' },
+      ],
+    };
+    const target = battleState.enemies[1];
+
+    const newState = resolveCardEffect(hitAndShield, battleState.playerParty[0], battleState, [target.instanceId]);
+
+    expect(newState.enemies[1].currentHp).toBeLessThan(target.currentHp);
+    expect(newState.enemies[1].block).toBe(0);
+    expect(newState.playerParty[0].block).toBe(5);
+  });
+
+  it('should heal the caster when an enemy heals without a target', () => {
+    const battleState = createSwarmBattle();
+    battleState.enemies[0].currentHp = 5;
+    battleState.playerParty[0].currentHp = 5;
+
+    const newState = resolveCardEffect(getCard('heal'), battleState.enemies[0], battleState);
+
+    expect(newState.enemies[0].currentHp).toBe(15);
+    expect(newState.playerParty[0].currentHp).toBe(5);
+  });
+});
+
+describe('Formation rows', () => {
+  // Charmander and Pikachu line up in the back, Squirtle in the front
+  function createFormationBattle(): BattleState {
+    return createBattleState(
+      [
+        { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+        { pokemonId: 'squirtle' as PokemonId, playerId: '2', playerName: 'Player 2' },
+        { pokemonId: 'pikachu' as PokemonId, playerId: '3', playerName: 'Player 3' },
+      ],
+      [{ pokemonId: 'rattata' as PokemonId }]
+    );
+  }
+
+  it('should line each Pokemon up in its usual row unless told otherwise', () => {
+    const battleState = createBattleState(
+      [
+        { pokemonId: 'squirtle' as PokemonId, playerId: '1', playerName: 'Player 1' },
+        { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2', row: 'front' },
+      ],
+      [{ pokemonId: 'magnemite' as PokemonId }]
+    );
+
+    expect(battleState.playerParty.map(p => p.row)).toEqual(['front', 'front']);
+    expect(battleState.enemies[0].row).toBe('back');
+  });
+
+  it('should keep melee cards to the front row while anyone there is standing', () => {
+    const battleState = createFormationBattle();
+    const rattata = battleState.enemies[0];
+
+    expect(getValidTargets(getCard('tackle'), rattata, battleState).map(p => p.instanceId)).toEqual(['player-1']);
+    expect(getValidTargets(getCard('supersonic'), rattata, battleState)).toHaveLength(3);
+
+    battleState.playerParty[1].currentHp = 0;
+    expect(getValidTargets(getCard('tackle'), rattata, battleState).map(p => p.instanceId)).toEqual(['player-0', 'player-2']);
+  });
+
+  it('should aim untargeted attacks at the front row', () => {
+    const battleState = createFormationBattle();
+
+    const newState = resolveCardEffect(getCard('tackle'), battleState.enemies[0], battleState);
+
+    expect(newState.playerParty[1].currentHp).toBeLessThan(battleState.playerParty[1].currentHp);
+    expect(newState.playerParty[0].currentHp).toBe(battleState.playerParty[0].currentHp);
+  });
+
+  it('should move the caster to the other row when it swaps', () => {
+    const battleState = createFormationBattle();
+    const pikachu = battleState.playerParty[2];
+    const events: BattleEvent[] = [];
+
+    const newState = resolveCardEffect(getCard('agility'), pikachu, battleState, undefined, events);
+
+    expect(newState.playerParty[2].row).toBe('front');
+    expect(events).toEqual([{ type: 'rowChanged', targetId: pikachu.instanceId, row: 'front' }]);
+    expect(getValidTargets(getCard('tackle'), newState.enemies[0], newState).map(p => p.instanceId)).toEqual(['player-1', 'player-2']);
+  });
+});
+
+describe('Added cards', () => {
+  it('should put unplayable cards in the target\'s discard pile', () => {
+    const battleState = createSwarmBattle();
+    const events: BattleEvent[] = [];
+
+    const newState = resolveCardEffect(getCard('confuse_ray'), battleState.enemies[0], battleState, undefined, events);
+
+    expect(newState.playerParty[0].discard).toEqual(['dazed', 'dazed']);
+    expect(events).toEqual([{ type: 'cardsAdded', targetId: 'player-0', cardId: 'dazed', count: 2 }]);
+  });
+});
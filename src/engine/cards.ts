@@ -1,42 +1,82 @@
-import type { BattleState, PokemonCombatState } from './types';
+import type { BattleState, BattleEvent, PokemonCombatState } from './types';
 import type { CardDefinition, CardEffect } from '../config/cards';
-import { getCardDefinition } from '../config/cards';
-import { applyStatus, applyBuff, getAttackUpBonus } from './status';
+import type { PokemonType } from '../config/pokemonTypes';
+import { applyStatus, applyBuff } from './status';
+import { calculateDamage } from './damage';
+import type { DamageBreakdown } from './damage';
+import { findCombatant, updateCombatant, getStandingFrontFirst } from './combatants';
+import { drawCards, takeRandomCards } from './deck';
 
+// Resolve each of a card's effects in order. Explicit targets apply to the single-target effects.
 export function resolveCardEffect(
   card: CardDefinition,
   caster: PokemonCombatState,
-  targets: PokemonCombatState[],
-  battleState: BattleState
+  battleState: BattleState,
+  explicitTargetIds?: string[],
+  events: BattleEvent[] = []
 ): BattleState {
-  let newBattleState = { ...battleState };
-  let newPlayerParty = [...battleState.playerParty];
-  let newEnemies = [...battleState.enemies];
+  let newBattleState = battleState;
+
+  for (const effect of card.effects) {
+    // Re-read the caster so each effect sees the results of the ones before it (e.g. thorns damage)
+    const latestCaster = findCombatant(newBattleState, caster.instanceId) ?? caster;
+    const targets = getEffectTargets(effect, latestCaster, newBattleState, explicitTargetIds);
+    newBattleState = resolveEffect(effect, latestCaster, targets, newBattleState, events, card.moveType);
+  }
 
-  const attackBonus = getAttackUpBonus(caster);
+  return newBattleState;
+}
 
-  switch (card.effect.type) {
+function resolveEffect(
+  effect: CardEffect,
+  caster: PokemonCombatState,
+  targets: PokemonCombatState[],
+  battleState: BattleState,
+  events: BattleEvent[],
+  moveType?: PokemonType
+): BattleState {
+  const newPlayerParty = [...battleState.playerParty];
+  const newEnemies = [...battleState.enemies];
+
+  switch (effect.type) {
     case 'damage': {
-      const amount = card.effect.amount + attackBonus;
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'cards.ts:20',message:'Applying damage',data:{amount,attackBonus,targetsCount:targets.length,targetIds:targets.map(t=>t.pokemonId)},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'C'})}).catch(()=>{});
-      // #endregion
       for (const target of targets) {
         const targetParty = target.playerId ? newPlayerParty : newEnemies;
-        const targetIndex = targetParty.findIndex(p => p.pokemonId === target.pokemonId);
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
         if (targetIndex >= 0) {
           const targetPokemon = targetParty[targetIndex];
-          const damageAfterBlock = Math.max(0, amount - targetPokemon.block);
-          const newBlock = Math.max(0, targetPokemon.block - amount);
-          const newHp = Math.max(0, targetPokemon.currentHp - damageAfterBlock);
-          // #region agent log
-          fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'cards.ts:28',message:'Damage calculation',data:{targetId:target.pokemonId,oldHp:targetPokemon.currentHp,oldBlock:targetPokemon.block,damageAmount:amount,damageAfterBlock,newBlock,newHp},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'C'})}).catch(()=>{});
-          // #endregion
+          const damage = calculateDamage(caster, targetPokemon, effect.amount, moveType);
           targetParty[targetIndex] = {
             ...targetPokemon,
-            currentHp: newHp,
-            block: newBlock,
+            currentHp: targetPokemon.currentHp - damage.hpLost,
+            block: targetPokemon.block - damage.blocked,
           };
+          if (damage.blocked > 0) {
+            events.push({ type: 'blockAbsorbed', targetId: target.instanceId, amount: damage.blocked });
+          }
+          events.push({
+            type: 'damageDealt',
+            sourceId: caster.instanceId,
+            targetId: target.instanceId,
+            amount: damage.hpLost,
+            ...(damage.effectiveness !== 1 && { effectiveness: damage.effectiveness }),
+            ...(damage.critical && { critical: true }),
+          });
+
+          // Effects like thorns hurt the attacker
+          if (damage.retaliation > 0) {
+            const casterParty = caster.playerId ? newPlayerParty : newEnemies;
+            const casterIndex = casterParty.findIndex(p => p.instanceId === caster.instanceId);
+            if (casterIndex >= 0) {
+              const casterHp = casterParty[casterIndex].currentHp;
+              const newCasterHp = Math.max(0, casterHp - damage.retaliation);
+              casterParty[casterIndex] = {
+                ...casterParty[casterIndex],
+                currentHp: newCasterHp,
+              };
+              events.push({ type: 'damageDealt', sourceId: target.instanceId, targetId: caster.instanceId, amount: casterHp - newCasterHp });
+            }
+          }
         }
       }
       break;
@@ -44,49 +84,30 @@ export function resolveCardEffect(
     case 'heal': {
       for (const target of targets) {
         const targetParty = target.playerId ? newPlayerParty : newEnemies;
-        const targetIndex = targetParty.findIndex(p => p.pokemonId === target.pokemonId);
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
         if (targetIndex >= 0) {
           const targetPokemon = targetParty[targetIndex];
-          const newHp = Math.min(targetPokemon.maxHp, targetPokemon.currentHp + card.effect.amount);
-          
+          const newHp = Math.min(targetPokemon.maxHp, targetPokemon.currentHp + effect.amount);
+
           targetParty[targetIndex] = {
             ...targetPokemon,
             currentHp: newHp,
           };
+          events.push({ type: 'healed', targetId: target.instanceId, amount: newHp - targetPokemon.currentHp });
         }
       }
       break;
     }
     case 'block': {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'cards.ts:52',message:'Applying block',data:{target:card.effect.target,amount:card.effect.amount,casterId:caster.pokemonId},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'D'})}).catch(()=>{});
-      // #endregion
-      if (card.effect.target === 'self') {
-        const casterParty = caster.playerId ? newPlayerParty : newEnemies;
-        const casterIndex = casterParty.findIndex(p => p.pokemonId === caster.pokemonId);
-        if (casterIndex >= 0) {
-          const oldBlock = casterParty[casterIndex].block;
-          const newBlock = oldBlock + card.effect.amount;
-          // #region agent log
-          fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'cards.ts:58',message:'Block applied to self',data:{casterId:caster.pokemonId,oldBlock,newBlock,amount:card.effect.amount},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'D'})}).catch(()=>{});
-          // #endregion
-          casterParty[casterIndex] = {
-            ...casterParty[casterIndex],
-            block: newBlock,
-          };
-        }
-      } else if (card.effect.target === 'all') {
-        // Apply to all allies
-        for (let i = 0; i < newPlayerParty.length; i++) {
-          const oldBlock = newPlayerParty[i].block;
-          const newBlock = oldBlock + card.effect.amount;
-          // #region agent log
-          fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'cards.ts:70',message:'Block applied to all',data:{pokemonId:newPlayerParty[i].pokemonId,oldBlock,newBlock,amount:card.effect.amount},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'D'})}).catch(()=>{});
-          // #endregion
-          newPlayerParty[i] = {
-            ...newPlayerParty[i],
-            block: newBlock,
+      for (const target of targets) {
+        const targetParty = target.playerId ? newPlayerParty : newEnemies;
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
+        if (targetIndex >= 0) {
+          targetParty[targetIndex] = {
+            ...targetParty[targetIndex],
+            block: targetParty[targetIndex].block + effect.amount,
           };
+          events.push({ type: 'blockGained', targetId: target.instanceId, amount: effect.amount });
         }
       }
       break;
@@ -94,120 +115,180 @@ export function resolveCardEffect(
     case 'status': {
       for (const target of targets) {
         const targetParty = target.playerId ? newPlayerParty : newEnemies;
-        const targetIndex = targetParty.findIndex(p => p.pokemonId === target.pokemonId);
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
         if (targetIndex >= 0) {
           targetParty[targetIndex] = applyStatus(
             targetParty[targetIndex],
-            card.effect.status,
-            card.effect.stacks
+            effect.status,
+            effect.stacks
           );
+          events.push({ type: 'statusApplied', targetId: target.instanceId, status: effect.status, stacks: effect.stacks });
         }
       }
       break;
     }
     case 'buff': {
-      if (card.effect.target === 'self') {
-        const casterParty = caster.playerId ? newPlayerParty : newEnemies;
-        const casterIndex = casterParty.findIndex(p => p.pokemonId === caster.pokemonId);
-        if (casterIndex >= 0) {
-          casterParty[casterIndex] = applyBuff(
-            casterParty[casterIndex],
-            card.effect.buff,
-            card.effect.stacks
+      for (const target of targets) {
+        const targetParty = target.playerId ? newPlayerParty : newEnemies;
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
+        if (targetIndex >= 0) {
+          targetParty[targetIndex] = applyBuff(
+            targetParty[targetIndex],
+            effect.buff,
+            effect.stacks
           );
+          events.push({ type: 'buffGained', targetId: target.instanceId, buff: effect.buff, stacks: effect.stacks });
         }
-      } else if (card.effect.target === 'all') {
-        // Apply to all allies
-        for (let i = 0; i < newPlayerParty.length; i++) {
-          newPlayerParty[i] = applyBuff(
-            newPlayerParty[i],
-            card.effect.buff,
-            card.effect.stacks
-          );
+      }
+      break;
+    }
+    case 'draw': {
+      const { hand, deck, discard, rng } = drawCards(caster.deck, caster.hand, caster.discard, effect.amount, battleState.rng);
+      return updateCombatant({ ...battleState, rng }, { ...caster, hand, deck, discard });
+    }
+    case 'gainMana': {
+      return updateCombatant(battleState, {
+        ...caster,
+        currentMana: Math.min(caster.maxMana, caster.currentMana + effect.amount),
+      });
+    }
+    case 'discard': {
+      const { hand, taken, rng } = takeRandomCards(caster.hand, effect.amount, battleState.rng);
+      return updateCombatant({ ...battleState, rng }, { ...caster, hand, discard: [...caster.discard, ...taken] });
+    }
+    case 'exhaust': {
+      const { hand, taken, rng } = takeRandomCards(caster.hand, effect.amount, battleState.rng);
+      return updateCombatant({ ...battleState, rng }, { ...caster, hand, exhaust: [...caster.exhaust, ...taken] });
+    }
+    case 'retain': {
+      return updateCombatant(battleState, { ...caster, retain: caster.retain + effect.amount });
+    }
+    case 'addCard': {
+      for (const target of targets) {
+        const targetParty = target.playerId ? newPlayerParty : newEnemies;
+        const targetIndex = targetParty.findIndex(p => p.instanceId === target.instanceId);
+        if (targetIndex >= 0) {
+          targetParty[targetIndex] = {
+            ...targetParty[targetIndex],
+            discard: [...targetParty[targetIndex].discard, ...Array<string>(effect.count).fill(effect.cardId)],
+          };
+          events.push({ type: 'cardsAdded', targetId: target.instanceId, cardId: effect.cardId, count: effect.count });
         }
       }
       break;
     }
+    case 'swap': {
+      const row = caster.row === 'front' ? 'back' : 'front';
+      events.push({ type: 'rowChanged', targetId: caster.instanceId, row });
+      return updateCombatant(battleState, { ...caster, row });
+    }
   }
 
   return {
-    ...newBattleState,
+    ...battleState,
     playerParty: newPlayerParty,
     enemies: newEnemies,
   };
 }
 
-export function getCardTargets(
+// Every hit the card would land on the target, worked out as it would resolve: each hit sees the
+// block and statuses left by the card's effects before it
+export function previewCardDamage(
+  card: CardDefinition,
+  caster: PokemonCombatState,
+  battleState: BattleState,
+  targetId: string
+): DamageBreakdown[] {
+  const hits: DamageBreakdown[] = [];
+  let state = battleState;
+
+  for (const effect of card.effects) {
+    const latestCaster = findCombatant(state, caster.instanceId) ?? caster;
+    const target = findCombatant(state, targetId);
+    if (!target) break;
+
+    const targets = getEffectTargets(effect, latestCaster, state, [targetId]);
+    if (effect.type === 'damage' && targets.some(p => p.instanceId === targetId)) {
+      hits.push(calculateDamage(latestCaster, target, effect.amount, card.moveType));
+    }
+    state = resolveEffect(effect, latestCaster, targets, state, [], card.moveType);
+  }
+
+  return hits;
+}
+
+// Damage, statuses and added cards aimed at the 'enemy' side go to the caster's opponents
+function aimsAtOpponents(effect: CardEffect): boolean {
+  return (effect.type === 'damage' || effect.type === 'status' || effect.type === 'addCard') && effect.side === 'enemy';
+}
+
+// The effect whose single target is chosen when the card is played.
+// The card's other single-target effects on the same side share it.
+export function getTargetingEffect(card: CardDefinition): CardEffect | undefined {
+  return card.effects.find(effect => effect.target === 'single');
+}
+
+// The standing Pokemon the caster may choose as the card's target; none if the card isn't targeted.
+// Damage, statuses and added cards aimed at the 'enemy' side go to the caster's opponents, everything else to its allies.
+// Melee cards can't reach an opponent's back row while its front row has anyone standing.
+export function getValidTargets(
   card: CardDefinition,
   caster: PokemonCombatState,
+  battleState: BattleState
+): PokemonCombatState[] {
+  const effect = getTargetingEffect(card);
+  if (!effect) return [];
+
+  const allies = caster.playerId ? battleState.playerParty : battleState.enemies;
+  const opponents = caster.playerId ? battleState.enemies : battleState.playerParty;
+  const onOpponents = aimsAtOpponents(effect);
+  const standing = (onOpponents ? opponents : allies).filter(p => p.currentHp > 0);
+  if (!onOpponents || card.range !== 'melee') {
+    return standing;
+  }
+  const frontRow = standing.filter(p => p.row === 'front');
+  return frontRow.length > 0 ? frontRow : standing;
+}
+
+export function getEffectTargets(
+  effect: CardEffect,
+  caster: PokemonCombatState,
   battleState: BattleState,
   explicitTargetIds?: string[]
 ): PokemonCombatState[] {
-  const effect = card.effect;
-
-  // If explicit targets provided, use them
-  if (explicitTargetIds && explicitTargetIds.length > 0) {
-    // Check if targets are in uniqueId format (pokemonId-index) or just pokemonId
-    const targets: PokemonCombatState[] = [];
-    for (const id of explicitTargetIds) {
-      if (id.includes('-')) {
-        // Unique ID format: "pokemonId-index"
-        const [pokemonId, indexStr] = id.split('-');
-        const index = parseInt(indexStr, 10);
-        
-        // Find in appropriate array based on card effect
-        if (effect.type === 'heal') {
-          // Heal targets allies (player party)
-          if (index >= 0 && index < battleState.playerParty.length && battleState.playerParty[index].pokemonId === pokemonId) {
-            targets.push(battleState.playerParty[index]);
-          }
-        } else if (effect.side === 'enemy') {
-          // Look in enemies
-          if (index >= 0 && index < battleState.enemies.length && battleState.enemies[index].pokemonId === pokemonId) {
-            targets.push(battleState.enemies[index]);
-          }
-        } else if (effect.side === 'ally') {
-          // Look in player party
-          if (index >= 0 && index < battleState.playerParty.length && battleState.playerParty[index].pokemonId === pokemonId) {
-            targets.push(battleState.playerParty[index]);
-          }
-        }
-      } else {
-        // Just pokemonId - find first matching (legacy behavior)
-        const allCombatants = [...battleState.playerParty, ...battleState.enemies];
-        const found = allCombatants.find(p => p.pokemonId === id);
-        if (found) {
-          targets.push(found);
-        }
-      }
+  // Sides are relative to the caster: an enemy's 'enemy' side is the party
+  const casterSide = caster.playerId ? battleState.playerParty : battleState.enemies;
+  const otherSide = caster.playerId ? battleState.enemies : battleState.playerParty;
+
+  // Explicit targets go to single-target effects aimed at their side. On a card that mixes sides,
+  // the other side's single-target effects fall back to their usual targets below.
+  if (effect.target === 'single' && explicitTargetIds && explicitTargetIds.length > 0) {
+    const effectSide = aimsAtOpponents(effect) ? otherSide : casterSide;
+    const explicitTargets = explicitTargetIds
+      .map(id => effectSide.find(p => p.instanceId === id))
+      .filter((p): p is PokemonCombatState => p !== undefined);
+    if (explicitTargets.length > 0) {
+      return explicitTargets;
     }
-    return targets;
   }
 
-  // Determine targets based on effect
-  if (effect.type === 'damage' || effect.type === 'status') {
+  if (effect.type === 'damage' || effect.type === 'status' || effect.type === 'addCard') {
+    const side = effect.side === 'enemy' ? otherSide : casterSide;
     if (effect.target === 'all') {
-      return effect.side === 'enemy' ? battleState.enemies : battleState.playerParty;
+      return side.filter(p => p.currentHp > 0);
     } else {
-      // Single target - should be provided explicitly, but fallback to first enemy
-      return effect.side === 'enemy' 
-        ? battleState.enemies.filter(e => e.currentHp > 0).slice(0, 1)
-        : battleState.playerParty.filter(p => p.currentHp > 0).slice(0, 1);
+      // Single target - should be provided explicitly, but fallback to the first one standing,
+      // front row first so melee cards stay in reach
+      return getStandingFrontFirst(side).slice(0, 1);
     }
-  } else if (effect.type === 'heal' || effect.type === 'block') {
+  } else if (effect.type === 'heal' || effect.type === 'block' || effect.type === 'buff') {
     if (effect.target === 'all') {
-      return battleState.playerParty;
-    } else {
-      // Single target - should be provided explicitly
-      return battleState.playerParty.filter(p => p.currentHp > 0).slice(0, 1);
-    }
-  } else if (effect.type === 'buff') {
-    if (effect.target === 'all') {
-      return battleState.playerParty;
-    } else {
-      return [caster];
+      return casterSide.filter(p => p.currentHp > 0);
     }
+    // The caster itself, or a single ally that should be provided explicitly - fallback to the caster
+    return [caster];
   }
 
-  return [];
+  // Resource effects (draw, mana, discard, exhaust, retain) and swaps only touch the caster
+  return [caster];
 }
@@ -0,0 +1,40 @@
+import type { BattleState, PokemonCombatState } from './types';
+
+export function getAllCombatants(battleState: BattleState): PokemonCombatState[] {
+  return [...battleState.playerParty, ...battleState.enemies];
+}
+
+export function findCombatant(
+  battleState: BattleState,
+  instanceId: string
+): PokemonCombatState | undefined {
+  return getAllCombatants(battleState).find(p => p.instanceId === instanceId);
+}
+
+// The standing Pokemon among the given ones, front row first
+export function getStandingFrontFirst(pokemon: PokemonCombatState[]): PokemonCombatState[] {
+  const standing = pokemon.filter(p => p.currentHp > 0);
+  return [...standing.filter(p => p.row === 'front'), ...standing.filter(p => p.row !== 'front')];
+}
+
+// Replace a combatant (matched by instance ID) in its party and in the turn order
+export function updateCombatant(
+  battleState: BattleState,
+  updated: PokemonCombatState
+): BattleState {
+  const replace = (p: PokemonCombatState) => (p.instanceId === updated.instanceId ? updated : p);
+  return {
+    ...battleState,
+    playerParty: battleState.playerParty.map(replace),
+    enemies: battleState.enemies.map(replace),
+    turnOrder: battleState.turnOrder.map(replace),
+  };
+}
+
+// Refresh turn order entries from the party arrays, which are the source of truth
+export function syncTurnOrder(battleState: BattleState): BattleState {
+  return {
+    ...battleState,
+    turnOrder: battleState.turnOrder.map(p => findCombatant(battleState, p.instanceId) ?? p),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState } from './battle';
+import { calculateDamage } from './damage';
+import { previewCardDamage, resolveCardEffect } from './cards';
+import { applyStatus, applyBuff } from './status';
+import { getCardDefinition } from '../config/cards';
+import type { BattleEvent, BattleState } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+function createDuel(attacker: PokemonId, defender: PokemonId): BattleState {
+  return createBattleState([{ pokemonId: attacker, playerId: '1', playerName: 'Player 1' }], [{ pokemonId: defender }]);
+}
+
+describe('Damage calculation', () => {
+  it('should itemize every modifier in order', () => {
+    const battleState = createDuel('squirtle', 'charmander');
+    const attacker = applyStatus(applyBuff(battleState.playerParty[0], 'attackUp', 2), 'weaken', 1);
+    const defender = { ...applyStatus(battleState.enemies[0], 'vulnerable', 1), block: 5 };
+
+    const damage = calculateDamage(attacker, defender, 6, 'water');
+
+    // 6 + 2 - 1 = 7, * 1.25 STAB * 2 = 17, * 1.5 vulnerable = 25, - 5 block = 20
+    expect(damage.steps).toEqual([
+      { label: 'Base', change: 6, total: 6 },
+      { label: 'Atk+', change: 2, total: 8 },
+      { label: 'Weak', change: -1, total: 7 },
+      { label: 'STAB, super effective', change: 10, total: 17 },
+      { label: 'Vuln', change: 8, total: 25 },
+      { label: 'Block', change: -5, total: 20 },
+    ]);
+    expect(damage).toMatchObject({ beforeBlock: 25, blocked: 5, hpLost: 20, effectiveness: 2, critical: false });
+  });
+
+  it('should land critical hits while focused', () => {
+    const battleState = createDuel('charmander', 'rattata');
+    const attacker = applyBuff(battleState.playerParty[0], 'focus', 1);
+
+    const damage = calculateDamage(attacker, battleState.enemies[0], 8);
+
+    expect(damage.critical).toBe(true);
+    expect(damage.steps[damage.steps.length - 1]).toEqual({ label: 'Critical hit', change: 4, total: 12 });
+  });
+
+  it('should not take more HP than the defender has left', () => {
+    const battleState = createDuel('charmander', 'rattata');
+    const defender = { ...battleState.enemies[0], currentHp: 3 };
+
+    expect(calculateDamage(battleState.playerParty[0], defender, 8)).toMatchObject({ beforeBlock: 8, hpLost: 3 });
+  });
+
+  it('should preview exactly what the card deals when played', () => {
+    const battleState = createDuel('pikachu', 'rattata');
+    const caster = applyBuff(battleState.enemies[0], 'focus', 1);
+    const target = { ...battleState.playerParty[0], block: 4 };
+    const state = { ...battleState, enemies: [caster], playerParty: [target] };
+    const events: BattleEvent[] = [];
+
+    // Fury Swipes: three critical hits of 4, the first of them blocked
+    const hits = previewCardDamage(getCardDefinition('fury_swipes')!, caster, state, target.instanceId);
+    resolveCardEffect(getCardDefinition('fury_swipes')!, caster, state, [target.instanceId], events);
+
+    expect(hits.map(hit => hit.hpLost)).toEqual([0, 4, 4]);
+    expect(events.filter(e => e.type === 'damageDealt').map(e => e.type === 'damageDealt' && e.amount)).toEqual([0, 4, 4]);
+  });
+});
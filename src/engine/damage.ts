@@ -0,0 +1,106 @@
+import type { PokemonCombatState } from './types';
+import type { PokemonType } from '../config/pokemonTypes';
+import { getTypeEffectiveness, getStabMultiplier } from '../config/pokemonTypes';
+import { getPokemonStats } from '../config/pokemon';
+import { CRITICAL_MULTIPLIER } from '../config/statuses';
+import type { IncomingDamage } from '../config/statuses';
+import { getActiveEffects } from './status';
+
+// One line of a damage breakdown
+export interface DamageStep {
+  label: string; // What changed the damage, e.g. "Atk+" or "Super effective"
+  change: number; // How much this step added (negative if it took some away)
+  total: number; // Damage after this step
+}
+
+export interface DamageBreakdown {
+  steps: DamageStep[]; // The base amount, then every modifier that changed it
+  beforeBlock: number;
+  blocked: number;
+  hpLost: number; // Never more than the defender has left
+  effectiveness: number;
+  critical: boolean;
+  retaliation: number; // Damage dealt back to the attacker, e.g. by thorns
+}
+
+// Scale a hit by its move type: a bonus if the attacker shares the type, then the matchup
+// against the defender's types
+export function applyTypeMatchup(
+  amount: number,
+  moveType: PokemonType | undefined,
+  attacker: PokemonCombatState,
+  defender: PokemonCombatState
+): { amount: number; effectiveness: number } {
+  if (!moveType) {
+    return { amount, effectiveness: 1 };
+  }
+  const stab = getStabMultiplier(moveType, getPokemonStats(attacker.pokemonId).types);
+  const effectiveness = getTypeEffectiveness(moveType, getPokemonStats(defender.pokemonId).types);
+  return { amount: Math.floor(amount * stab * effectiveness), effectiveness };
+}
+
+// Work out a single hit, in order: the attacker's buffs, then its debuffs, the move's type,
+// critical hits, the defender's own effects (defense, vulnerability, thorns), and finally block.
+export function calculateDamage(
+  attacker: PokemonCombatState,
+  defender: PokemonCombatState,
+  baseAmount: number,
+  moveType?: PokemonType
+): DamageBreakdown {
+  const steps: DamageStep[] = [{ label: 'Base', change: baseAmount, total: baseAmount }];
+  const addStep = (label: string, total: number) => {
+    const previous = steps[steps.length - 1].total;
+    if (total !== previous) {
+      steps.push({ label, change: total - previous, total });
+    }
+    return total;
+  };
+
+  // Buffs come before debuffs, so flat bonuses apply before multipliers like burn
+  let amount = baseAmount;
+  for (const { definition, stacks } of getActiveEffects(attacker)) {
+    if (definition.onDamageDealt) {
+      amount = addStep(definition.name, definition.onDamageDealt(amount, stacks));
+    }
+  }
+
+  const typed = applyTypeMatchup(amount, moveType, attacker, defender);
+  const stab = moveType ? getStabMultiplier(moveType, getPokemonStats(attacker.pokemonId).types) : 1;
+  amount = addStep(describeMatchup(stab, typed.effectiveness), typed.amount);
+
+  const critical = getActiveEffects(attacker).some(({ definition }) => definition.criticalHits);
+  if (critical) {
+    amount = addStep('Critical hit', Math.floor(amount * CRITICAL_MULTIPLIER));
+  }
+
+  let incoming: IncomingDamage = { amount, retaliation: 0 };
+  for (const { definition, stacks } of getActiveEffects(defender)) {
+    if (definition.onDamageTaken) {
+      incoming = definition.onDamageTaken(incoming, stacks);
+      addStep(definition.name, incoming.amount);
+    }
+  }
+
+  const blocked = Math.min(defender.block, incoming.amount);
+  const afterBlock = addStep('Block', incoming.amount - blocked);
+
+  return {
+    steps,
+    beforeBlock: incoming.amount,
+    blocked,
+    hpLost: Math.min(defender.currentHp, afterBlock),
+    effectiveness: typed.effectiveness,
+    critical,
+    retaliation: incoming.retaliation,
+  };
+}
+
+// e.g. "STAB, super effective"
+function describeMatchup(stab: number, effectiveness: number): string {
+  const parts = [
+    ...(stab !== 1 ? ['STAB'] : []),
+    ...(effectiveness > 1 ? ['super effective'] : effectiveness < 1 ? ['not very effective'] : []),
+  ];
+  const label = parts.join(', ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
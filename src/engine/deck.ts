@@ -1,54 +1,40 @@
-// Simple seeded random number generator for testability
-class SeededRandom {
-  private seed: number;
+import type { RngState } from './random';
+import { SeededRandom } from './random';
+import { hasKeyword } from '../config/cards';
 
-  constructor(seed: number = Date.now()) {
-    this.seed = seed;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-
-  setSeed(seed: number): void {
-    this.seed = seed;
-  }
-}
-
-let globalRandom = new SeededRandom();
-
-export function setRandomSeed(seed: number): void {
-  globalRandom = new SeededRandom(seed);
-}
-
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], rng: RngState): { shuffled: T[]; rng: RngState } {
+  const random = new SeededRandom(rng);
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(globalRandom.next() * (i + 1));
+    const j = Math.floor(random.next() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
-  return shuffled;
+  return { shuffled, rng: random.getState() };
 }
 
-export function createDeck(cardIds: string[]): string[] {
-  return shuffle(cardIds);
+// Shuffle a deck, with innate cards on top so they're drawn into the opening hand
+export function createDeck(cardIds: string[], rng: RngState): { deck: string[]; rng: RngState } {
+  const { shuffled, rng: newRng } = shuffle(cardIds, rng);
+  const innate = shuffled.filter(cardId => hasKeyword(cardId, 'innate'));
+  return { deck: [...innate, ...shuffled.filter(cardId => !hasKeyword(cardId, 'innate'))], rng: newRng };
 }
 
 export function drawCards(
   deck: string[],
   hand: string[],
   discard: string[],
-  count: number
-): { deck: string[]; hand: string[]; discard: string[] } {
+  count: number,
+  rng: RngState
+): { deck: string[]; hand: string[]; discard: string[]; rng: RngState } {
   let newDeck = [...deck];
-  let newHand = [...hand];
+  const newHand = [...hand];
   let newDiscard = [...discard];
+  let newRng = rng;
 
   for (let i = 0; i < count; i++) {
     if (newDeck.length === 0) {
       // Reshuffle discard into deck
-      newDeck = shuffle(newDiscard);
+      ({ shuffled: newDeck, rng: newRng } = shuffle(newDiscard, newRng));
       newDiscard = [];
     }
     if (newDeck.length > 0) {
@@ -61,27 +47,61 @@ export function drawCards(
     deck: newDeck,
     hand: newHand,
     discard: newDiscard,
+    rng: newRng,
   };
 }
 
-export function playCard(
+// Remove up to count random cards from hand (for discard and exhaust effects)
+export function takeRandomCards(
   hand: string[],
-  cardId: string,
-  discard: string[]
-): { hand: string[]; discard: string[] } {
+  count: number,
+  rng: RngState
+): { hand: string[]; taken: string[]; rng: RngState } {
+  const random = new SeededRandom(rng);
   const newHand = [...hand];
-  const newDiscard = [...discard];
-  const cardIndex = newHand.indexOf(cardId);
-  
-  if (cardIndex === -1) {
-    throw new Error(`Card ${cardId} not found in hand`);
-  }
+  const taken: string[] = [];
 
-  newHand.splice(cardIndex, 1);
-  newDiscard.push(cardId);
+  for (let i = 0; i < count && newHand.length > 0; i++) {
+    const index = Math.floor(random.next() * newHand.length);
+    taken.push(...newHand.splice(index, 1));
+  }
 
   return {
     hand: newHand,
-    discard: newDiscard,
+    taken,
+    rng: random.getState(),
+  };
+}
+
+// Empty the hand at end of turn. Cards with retain stay, ethereal cards are exhausted, and of
+// the rest the first retainCount stay and the others are discarded.
+export function discardHand(
+  hand: string[],
+  discard: string[],
+  exhaust: string[],
+  retainCount: number
+): { hand: string[]; discard: string[]; exhaust: string[] } {
+  const kept: string[] = [];
+  const discarded: string[] = [];
+  const exhausted: string[] = [];
+  let retainedByEffects = 0;
+
+  for (const cardId of hand) {
+    if (hasKeyword(cardId, 'retain')) {
+      kept.push(cardId);
+    } else if (hasKeyword(cardId, 'ethereal')) {
+      exhausted.push(cardId);
+    } else if (retainedByEffects < retainCount) {
+      kept.push(cardId);
+      retainedByEffects++;
+    } else {
+      discarded.push(cardId);
+    }
+  }
+
+  return {
+    hand: kept,
+    discard: [...discard, ...discarded],
+    exhaust: [...exhaust, ...exhausted],
   };
 }
@@ -4,3 +4,13 @@ export * from './battle';
 export * from './campaign';
 export * from './ai';
 export * from './deck';
+export * from './combatants';
+export * from './mapGenerator';
+export * from './random';
+export * from './replay';
+export * from './simulator';
+export * from './planner';
+export * from './intents';
+export * from './actions';
+export * from './undo';
+export * from './damage';
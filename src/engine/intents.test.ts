@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn } from './battle';
+import { getIntentActions, getIntentSummary } from './intents';
+import { findCombatant, updateCombatant } from './combatants';
+import type { BattleState, PlayCardAction } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+function createTestBattle(): BattleState {
+  return createBattleState(
+    [
+      { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+      { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2' },
+    ],
+    [{ pokemonId: 'rattata' as PokemonId }, { pokemonId: 'raticate' as PokemonId }],
+    1
+  );
+}
+
+// A battle on the first enemy's turn, holding the given hand and committed to the given plays
+function createEnemyTurn(hand: string[], intent: PlayCardAction[]): BattleState {
+  const battleState = createTestBattle();
+  const enemy = battleState.enemies[0];
+  const updated = updateCombatant(battleState, { ...enemy, hand, currentMana: 3, intent });
+  return { ...updated, currentTurnIndex: updated.turnOrder.findIndex(p => p.instanceId === enemy.instanceId) };
+}
+
+function ember(targetId: string): PlayCardAction {
+  return { type: 'playCard', cardId: 'ember_1', casterId: 'enemy-0', targetIds: [targetId] };
+}
+
+describe('Enemy intents', () => {
+  it('should commit every enemy to cards from its hand when the battle starts', () => {
+    const battleState = createTestBattle();
+
+    battleState.enemies.forEach(enemy => {
+      expect(enemy.intent).toBeDefined();
+      enemy.intent!.forEach(play => {
+        expect(play.casterId).toBe(enemy.instanceId);
+        expect(enemy.hand).toContain(play.cardId);
+      });
+    });
+    battleState.playerParty.forEach(player => expect(player.intent).toBeUndefined());
+  });
+
+  it('should spend the intent when the enemy\'s turn ends and commit again next round', () => {
+    let battleState = createTestBattle();
+    const round = battleState.currentRound;
+
+    while (battleState.currentRound === round) {
+      const current = battleState.turnOrder[battleState.currentTurnIndex];
+      const wasEnemy = !current.playerId;
+      battleState = processTurn(battleState, { type: 'endTurn' });
+      if (wasEnemy && battleState.currentRound === round) {
+        expect(findCombatant(battleState, current.instanceId)!.intent).toBeUndefined();
+      }
+    }
+
+    battleState.enemies.forEach(enemy => expect(enemy.intent).toBeDefined());
+  });
+
+  it('should play the committed cards and end the turn', () => {
+    const battleState = createEnemyTurn(['ember_1', 'ember_1'], [ember('player-0'), ember('player-1')]);
+
+    expect(getIntentActions(battleState, battleState.enemies[0])).toEqual([
+      ember('player-0'),
+      ember('player-1'),
+      { type: 'endTurn' },
+    ]);
+  });
+
+  it('should re-target a play whose target has fainted', () => {
+    let battleState = createEnemyTurn(['ember_1'], [ember('player-0')]);
+    battleState = updateCombatant(battleState, { ...findCombatant(battleState, 'player-0')!, currentHp: 0 });
+
+    expect(getIntentActions(battleState, battleState.enemies[0])).toEqual([ember('player-1'), { type: 'endTurn' }]);
+  });
+
+  it('should re-target plays after an earlier play knocks out their target', () => {
+    let battleState = createEnemyTurn(['ember_1', 'ember_1'], [ember('player-0'), ember('player-0')]);
+    battleState = updateCombatant(battleState, { ...findCombatant(battleState, 'player-0')!, currentHp: 1 });
+
+    expect(getIntentActions(battleState, battleState.enemies[0])).toEqual([
+      ember('player-0'),
+      ember('player-1'),
+      { type: 'endTurn' },
+    ]);
+  });
+
+  it('should re-target a melee play whose target is no longer in reach', () => {
+    const tackle = (targetId: string): PlayCardAction => ({ type: 'playCard', cardId: 'tackle', casterId: 'enemy-0', targetIds: [targetId] });
+    let battleState = createEnemyTurn(['tackle'], [tackle('player-0')]);
+    // Pikachu steps up to the front, shielding Charmander
+    battleState = updateCombatant(battleState, { ...findCombatant(battleState, 'player-1')!, row: 'front' });
+
+    expect(getIntentActions(battleState, battleState.enemies[0])).toEqual([tackle('player-1'), { type: 'endTurn' }]);
+  });
+
+  it('should skip committed cards that are no longer in hand', () => {
+    const battleState = createEnemyTurn(['ember_1'], [ember('player-0'), ember('player-1')]);
+
+    expect(getIntentActions(battleState, battleState.enemies[0])).toEqual([ember('player-0'), { type: 'endTurn' }]);
+  });
+
+  it('should summarize the intent for display', () => {
+    const battleState = createEnemyTurn(['ember_1', 'burn_1'], [
+      ember('player-0'),
+      { type: 'playCard', cardId: 'burn_1', casterId: 'enemy-0', targetIds: ['player-1'] },
+    ]);
+
+    // Counted against its target: Ember is not very effective against Charmander
+    expect(getIntentSummary(battleState, battleState.enemies[0])).toEqual({
+      damage: 3,
+      targetIds: ['player-0', 'player-1'],
+      block: 0,
+      debuff: true,
+      buff: false,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type { Action, BattleState, PlayCardAction, PokemonCombatState } from './types';
+import { getCardDefinition } from '../config/cards';
+import { chooseEnemyActionAtDifficulty } from './ai';
+import { processTurn } from './battle';
+import { findCombatant, updateCombatant } from './combatants';
+import { getValidTargets } from './cards';
+import { calculateDamage } from './damage';
+import { hideDeckOrder } from './planner';
+import type { CardDefinition } from '../config/cards';
+
+// What an enemy's intent adds up to, for showing it to the players
+export interface IntentSummary {
+  damage: number; // Total damage of its attacks, before block. Area attacks count their hardest hit.
+  targetIds: string[]; // Who its single-target cards are aimed at
+  block: number;
+  debuff: boolean; // Applies statuses to the other side or clogs its decks
+  buff: boolean; // Buffs or heals its own side
+}
+
+// Every standing enemy picks the cards it will play on its next turn, as if its turn started now
+export function commitEnemyIntents(battleState: BattleState): BattleState {
+  return battleState.enemies
+    .filter(enemy => enemy.currentHp > 0)
+    .reduce((state, enemy) => updateCombatant(state, { ...enemy, intent: planIntent(battleState, enemy) }), battleState);
+}
+
+function planIntent(battleState: BattleState, enemy: PokemonCombatState): PlayCardAction[] {
+  const turnIndex = battleState.turnOrder.findIndex(p => p.instanceId === enemy.instanceId);
+  if (turnIndex < 0) return [];
+
+  // Mana regenerates when the turn starts
+  const projected = { ...enemy, currentMana: Math.min(enemy.maxMana, enemy.currentMana + enemy.manaRegen) };
+  const state = { ...updateCombatant(battleState, projected), currentTurnIndex: turnIndex };
+  return chooseEnemyActionAtDifficulty(state, projected, battleState.difficulty)
+    .filter((action): action is PlayCardAction => action.type === 'playCard');
+}
+
+// The enemy's turn as committed: cards it no longer holds or can't afford are skipped, and plays
+// aimed at a Pokemon that has fainted or moved out of reach since go to the weakest valid target.
+// Enemies without an intent choose their turn now.
+export function getIntentActions(battleState: BattleState, enemy: PokemonCombatState): Action[] {
+  if (!enemy.intent) {
+    return chooseEnemyActionAtDifficulty(battleState, enemy, battleState.difficulty);
+  }
+
+  const actions: Action[] = [];
+  let state = hideDeckOrder(battleState);
+
+  // Play the intent out so each play sees the results of the ones before it, without peeking at the decks
+  for (const play of enemy.intent) {
+    const caster = findCombatant(state, enemy.instanceId);
+    const card = getCardDefinition(play.cardId);
+    if (!caster || !card || !caster.hand.includes(play.cardId) || caster.currentMana < card.cost) continue;
+
+    const targetIds = play.targetIds && retarget(state, card, caster, play.targetIds);
+    if (play.targetIds && !targetIds) continue;
+
+    const action: PlayCardAction = { ...play, targetIds };
+    actions.push(action);
+    state = processTurn(state, action);
+    if (state.result !== 'ongoing') break;
+  }
+
+  return [...actions, { type: 'endTurn' }];
+}
+
+function retarget(
+  battleState: BattleState,
+  card: CardDefinition,
+  caster: PokemonCombatState,
+  targetIds: string[]
+): string[] | undefined {
+  const validTargets = getValidTargets(card, caster, battleState);
+  const retargeted: string[] = [];
+
+  for (const targetId of targetIds) {
+    if (!findCombatant(battleState, targetId)) return undefined;
+    if (validTargets.some(p => p.instanceId === targetId)) {
+      retargeted.push(targetId);
+      continue;
+    }
+
+    const replacement = validTargets
+      .reduce<PokemonCombatState | undefined>((weakest, p) => (!weakest || p.currentHp < weakest.currentHp ? p : weakest), undefined);
+    if (!replacement) return undefined;
+    retargeted.push(replacement.instanceId);
+  }
+
+  return retargeted;
+}
+
+// Sides are relative to the enemy: its 'enemy' side is the party
+export function getIntentSummary(battleState: BattleState, enemy: PokemonCombatState): IntentSummary | undefined {
+  if (!enemy.intent) return undefined;
+
+  const summary: IntentSummary = { damage: 0, targetIds: [], block: 0, debuff: false, buff: false };
+  for (const play of enemy.intent) {
+    const card = getCardDefinition(play.cardId);
+    if (!card) continue;
+
+    for (const effect of card.effects) {
+      if (effect.type === 'damage' && effect.side === 'enemy') {
+        const targets = effect.target === 'single'
+          ? (play.targetIds ?? []).map(id => findCombatant(battleState, id)).filter((p): p is PokemonCombatState => p !== undefined)
+          : battleState.playerParty.filter(p => p.currentHp > 0);
+        summary.damage += Math.max(0, ...targets.map(target => calculateDamage(enemy, target, effect.amount, card.moveType).beforeBlock));
+      } else if ((effect.type === 'status' || effect.type === 'addCard') && effect.side === 'enemy') {
+        summary.debuff = true;
+      } else if (effect.type === 'block') {
+        summary.block += effect.amount;
+      } else if (effect.type === 'buff' || effect.type === 'heal') {
+        summary.buff = true;
+      }
+    }
+
+    for (const targetId of play.targetIds ?? []) {
+      if (!summary.targetIds.includes(targetId)) {
+        summary.targetIds.push(targetId);
+      }
+    }
+  }
+
+  return summary;
+}
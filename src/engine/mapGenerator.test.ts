@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { generateCampaignMap } from './mapGenerator';
+import { createCampaignState, getAvailablePaths, progressToNode, checkEvolutionCheckpoint } from './campaign';
+import { DEFAULT_MAP_RULES, getNode } from '../config/campaign';
+import type { CampaignMap } from '../config/campaign';
+import type { PokemonId } from '../config/pokemon';
+
+function getReachableNodeIds(map: CampaignMap): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [map.startNodeId];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reachable.has(nodeId)) continue;
+    reachable.add(nodeId);
+    queue.push(...(getNode(nodeId, map)?.nextNodes ?? []));
+  }
+  return reachable;
+}
+
+describe('Map generation', () => {
+  it('should generate the same map from the same seed', () => {
+    expect(generateCampaignMap(42)).toEqual(generateCampaignMap(42));
+  });
+
+  it('should generate different maps from different seeds', () => {
+    const maps = [1, 2, 3, 4, 5].map(seed => JSON.stringify(generateCampaignMap(seed)));
+    expect(new Set(maps).size).toBeGreaterThan(1);
+  });
+
+  it('should make every node reachable and link only to existing nodes', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const map = generateCampaignMap(seed);
+      const nodes = Object.values(map.nodes);
+
+      expect(getReachableNodeIds(map).size).toBe(nodes.length);
+      nodes.forEach(node => node.nextNodes.forEach(nextId => expect(map.nodes[nextId]).toBeDefined()));
+    }
+  });
+
+  it('should end each act with an evolution checkpoint followed by its boss', () => {
+    const map = generateCampaignMap(7);
+    const bosses = Object.values(map.nodes).filter(node => node.type === 'boss');
+
+    expect(bosses.map(boss => boss.encounterId)).toEqual(DEFAULT_MAP_RULES.acts.map(act => act.bossEncounterId));
+    DEFAULT_MAP_RULES.acts.forEach((act, i) => {
+      const checkpoint = map.nodes[`act${i + 1}-evolution`];
+      expect(checkpoint.checkpointId).toBe(act.checkpointId);
+      expect(checkpoint.nextNodes).toEqual([`act${i + 1}-boss`]);
+    });
+
+    // Only the final boss is a dead end
+    const deadEnds = Object.values(map.nodes).filter(node => node.nextNodes.length === 0);
+    expect(deadEnds.map(node => node.encounterId)).toEqual(['mewtwo']);
+  });
+
+  it('should follow the node type rules', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const map = generateCampaignMap(seed);
+      const nodes = Object.values(map.nodes);
+
+      // Acts open with battles
+      nodes.filter(node => /^act\d-1-/.test(node.id)).forEach(node => expect(node.type).toBe('battle'));
+
+      // Non-battle node types never repeat along a path
+      nodes.forEach(node => {
+        node.nextNodes.forEach(nextId => {
+          const next = map.nodes[nextId];
+          if (next.type !== 'battle' && next.type !== 'boss') {
+            expect(next.type).not.toBe(node.type);
+          }
+        });
+      });
+
+      // Every battle and event has content
+      nodes.filter(node => node.type === 'battle').forEach(node => expect(node.encounterId).toBeDefined());
+      nodes.filter(node => node.type === 'event' && node.id !== map.startNodeId)
+        .forEach(node => expect(node.eventId).toBeDefined());
+
+      // Events only appear in acts that list them
+      nodes.filter(node => node.type === 'event' && node.id !== map.startNodeId).forEach(node => {
+        const act = DEFAULT_MAP_RULES.acts[Number(node.id.match(/^act(\d+)-/)![1]) - 1];
+        expect(act.eventIds).toContain(node.eventId);
+      });
+    }
+  });
+
+  it('should work with campaign navigation', () => {
+    const map = generateCampaignMap(3);
+    let campaign = createCampaignState([{ id: '1', name: 'Player 1', pokemonId: 'charmander' as PokemonId }], map);
+
+    // Always take the first path until the end of the campaign
+    const visited: string[] = [];
+    while (getAvailablePaths(campaign).length > 0) {
+      campaign = progressToNode(campaign, getAvailablePaths(campaign)[0]);
+      visited.push(campaign.currentNodeId);
+    }
+
+    expect(visited).toContain('act1-evolution');
+    expect(checkEvolutionCheckpoint(campaign, 'act1-evolution')).toEqual([{ from: 'charmander', to: 'charmeleon' }]);
+    expect(campaign.currentNodeId).toBe('act2-boss');
+  });
+});
@@ -0,0 +1,130 @@
+import type { CampaignMap, CampaignNode, GeneratedNodeType, MapGenerationRules } from '../config/campaign';
+import { DEFAULT_MAP_RULES, SERVICE_NODE_NAMES } from '../config/campaign';
+import { getEncounter } from '../config/encounters';
+import { getEvent } from '../config/events';
+import { SeededRandom } from './random';
+
+// Build a layered, branching map: each act is a few layers of regular nodes,
+// then its evolution checkpoint, then its boss. The same seed and rules always give the same map.
+export function generateCampaignMap(
+  seed: number,
+  rules: MapGenerationRules = DEFAULT_MAP_RULES
+): CampaignMap {
+  const random = new SeededRandom(seed);
+  const nodes: Record<string, CampaignNode> = {};
+  const unusedEventIds = [...new Set(rules.acts.flatMap(act => act.eventIds))];
+
+  const addNode = (node: CampaignNode): CampaignNode => {
+    nodes[node.id] = node;
+    return node;
+  };
+
+  const start = addNode({ id: 'start', type: 'event', name: 'Team Rocket Lab', nextNodes: [] });
+  let previousLayer = [start];
+
+  rules.acts.forEach((act, actIndex) => {
+    const actPrefix = `act${actIndex + 1}`;
+
+    for (let layer = 0; layer < act.layers; layer++) {
+      const width = random.nextInt(rules.minLayerWidth, rules.maxLayerWidth);
+      const ids = Array.from({ length: width }, (_, i) => `${actPrefix}-${layer + 1}-${i + 1}`);
+      const parentLayer = previousLayer;
+      connectLayers(parentLayer, ids);
+
+      previousLayer = ids.map(id => {
+        const parents = parentLayer.filter(p => p.nextNodes.includes(id));
+        // Acts open with a fight; otherwise don't repeat a parent's non-battle node type
+        const type = layer === 0
+          ? 'battle'
+          : pickNodeType(random, rules.nodeTypeWeights, parents.map(p => p.type));
+        return addNode(createNode(id, type, random, act.battleEncounterIds, unusedEventIds, act.eventIds));
+      });
+    }
+
+    const checkpoint = addNode({
+      id: `${actPrefix}-evolution`,
+      type: 'evolution',
+      checkpointId: act.checkpointId,
+      name: act.checkpointName,
+      nextNodes: [],
+    });
+    connectLayers(previousLayer, [checkpoint.id]);
+
+    const boss = addNode({
+      id: `${actPrefix}-boss`,
+      type: 'boss',
+      encounterId: act.bossEncounterId,
+      name: getEncounter(act.bossEncounterId)?.name ?? 'Boss',
+      nextNodes: [],
+    });
+    checkpoint.nextNodes = [boss.id];
+    previousLayer = [boss];
+  });
+
+  return {
+    nodes,
+    startNodeId: start.id,
+  };
+}
+
+// Connect every node in one layer to a contiguous range of the next, so each node
+// has at least one way in and one way out and no two paths cross
+function connectLayers(from: CampaignNode[], toIds: string[]): void {
+  from.forEach((node, i) => {
+    const first = Math.floor((i * toIds.length) / from.length);
+    const last = Math.max(first, Math.ceil(((i + 1) * toIds.length) / from.length) - 1);
+    node.nextNodes = toIds.slice(first, last + 1);
+  });
+}
+
+function pickNodeType(
+  random: SeededRandom,
+  weights: Record<GeneratedNodeType, number>,
+  parentTypes: string[]
+): GeneratedNodeType {
+  const allowed = (Object.keys(weights) as GeneratedNodeType[]).filter(
+    type => type === 'battle' || !parentTypes.includes(type)
+  );
+  const total = allowed.reduce((sum, type) => sum + weights[type], 0);
+
+  let roll = random.next() * total;
+  for (const type of allowed) {
+    roll -= weights[type];
+    if (roll < 0) {
+      return type;
+    }
+  }
+  return 'battle';
+}
+
+function createNode(
+  id: string,
+  type: GeneratedNodeType,
+  random: SeededRandom,
+  battleEncounterIds: string[],
+  unusedEventIds: string[],
+  actEventIds: string[]
+): CampaignNode {
+  switch (type) {
+    case 'battle': {
+      const encounterId = random.pick(battleEncounterIds);
+      return { id, type, encounterId, name: getEncounter(encounterId)?.name ?? 'Battle', nextNodes: [] };
+    }
+    case 'event': {
+      // Prefer the act's events that haven't appeared yet
+      const unused = actEventIds.filter(eventId => unusedEventIds.includes(eventId));
+      const pool = unused.length > 0 ? unused : actEventIds;
+      if (pool.length === 0) {
+        return createNode(id, 'battle', random, battleEncounterIds, unusedEventIds, actEventIds);
+      }
+      const eventId = random.pick(pool);
+      if (unusedEventIds.includes(eventId)) {
+        unusedEventIds.splice(unusedEventIds.indexOf(eventId), 1);
+      }
+      return { id, type, eventId, name: getEvent(eventId)?.name ?? 'Event', nextNodes: [] };
+    }
+    case 'smith':
+    case 'purge':
+      return { id, type, name: SERVICE_NODE_NAMES[type], nextNodes: [] };
+  }
+}
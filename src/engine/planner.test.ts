@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createBattleState } from './battle';
+import { resolveCardEffect } from './cards';
+import { chooseEnemyAction, chooseEnemyActionAtDifficulty } from './ai';
+import { findCombatant, updateCombatant } from './combatants';
+import type { Action, BattleState } from './types';
+import type { PokemonId } from '../config/pokemon';
+import { getEncounter } from '../config/encounters';
+import { getDifficultySettings } from '../config/difficulty';
+
+// Every card play the planner simulates resolves through resolveCardEffect, so counting its calls counts simulations
+vi.mock('./cards', async importOriginal => {
+  const actual = await importOriginal<typeof import('./cards')>();
+  return { ...actual, resolveCardEffect: vi.fn(actual.resolveCardEffect) };
+});
+
+// A battle on the first enemy's turn, holding the given hand
+function createEnemyTurn(hand: string[], mana: number): BattleState {
+  let battleState = createBattleState(
+    [
+      { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+      { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2' },
+    ],
+    [{ pokemonId: 'rattata' as PokemonId }, { pokemonId: 'raticate' as PokemonId }],
+    1
+  );
+  const enemy = battleState.enemies[0];
+  battleState = updateCombatant(battleState, { ...enemy, hand, currentMana: mana });
+  return { ...battleState, currentTurnIndex: battleState.turnOrder.findIndex(p => p.instanceId === enemy.instanceId) };
+}
+
+function setHp(battleState: BattleState, instanceId: string, currentHp: number): BattleState {
+  return updateCombatant(battleState, { ...findCombatant(battleState, instanceId)!, currentHp });
+}
+
+function getPlays(actions: Action[]) {
+  return actions.filter((action): action is Action & { type: 'playCard' } => action.type === 'playCard');
+}
+
+describe('Lookahead enemy AI', () => {
+  it('should find lethal on a weakened target', () => {
+    const battleState = setHp(createEnemyTurn(['ember_1', 'ember_1'], 2), 'player-1', 10);
+    const enemy = battleState.enemies[0];
+
+    const plays = getPlays(chooseEnemyActionAtDifficulty(battleState, enemy, 'hard'));
+
+    expect(plays.map(play => play.targetIds)).toEqual([['player-1'], ['player-1']]);
+    // The greedy AI just hits whoever is in front
+    expect(getPlays(chooseEnemyAction(battleState, enemy))[0].targetIds).toEqual(['player-0']);
+  });
+
+  it('should heal an injured ally', () => {
+    const battleState = setHp(createEnemyTurn(['heal'], 2), 'enemy-1', 5);
+
+    const plays = getPlays(chooseEnemyActionAtDifficulty(battleState, battleState.enemies[0], 'normal'));
+
+    expect(plays).toEqual([expect.objectContaining({ cardId: 'heal', targetIds: ['enemy-1'] })]);
+  });
+
+  it('should block with mana left over when threatened', () => {
+    const battleState = createEnemyTurn(['ember_1', 'defend_charmander'], 2);
+
+    const plays = getPlays(chooseEnemyActionAtDifficulty(battleState, battleState.enemies[0], 'normal'));
+
+    expect(plays.map(play => play.cardId).sort()).toEqual(['defend_charmander', 'ember_1']);
+  });
+
+  it('should attack rather than block when it can knock a target out', () => {
+    const battleState = setHp(createEnemyTurn(['ember_1', 'defend_charmander'], 1), 'player-0', 5);
+
+    const plays = getPlays(chooseEnemyActionAtDifficulty(battleState, battleState.enemies[0], 'normal'));
+
+    expect(plays).toEqual([expect.objectContaining({ cardId: 'ember_1', targetIds: ['player-0'] })]);
+  });
+
+  it('should play greedily on easy and always end the turn', () => {
+    const battleState = createEnemyTurn(['ember_1', 'defend_charmander'], 2);
+    const enemy = battleState.enemies[0];
+
+    expect(chooseEnemyActionAtDifficulty(battleState, enemy, 'easy')).toEqual(chooseEnemyAction(battleState, enemy));
+    const planned = chooseEnemyActionAtDifficulty(battleState, enemy, 'hard');
+    expect(planned[planned.length - 1]).toEqual({ type: 'endTurn' });
+  });
+
+  it('should plan the same whatever order its deck is really in', () => {
+    const withDeck = (deck: string[]) => {
+      const battleState = setHp(createEnemyTurn(['growth'], 2), 'player-1', 5);
+      return updateCombatant(battleState, { ...battleState.enemies[0], deck });
+    };
+    const emberOnTop = withDeck(['ember_1', 'defend_charmander', 'defend_charmander']);
+    const emberAtBottom = withDeck(['defend_charmander', 'defend_charmander', 'ember_1']);
+
+    expect(chooseEnemyActionAtDifficulty(emberOnTop, emberOnTop.enemies[0], 'hard'))
+      .toEqual(chooseEnemyActionAtDifficulty(emberAtBottom, emberAtBottom.enemies[0], 'hard'));
+  });
+
+  it('should keep hard planning within its budget on a boss fight', () => {
+    let battleState = createBattleState(
+      [
+        { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+        { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2' },
+        { pokemonId: 'squirtle' as PokemonId, playerId: '3', playerName: 'Player 3' },
+      ],
+      getEncounter('giovanni')!.enemies,
+      1,
+      'hard'
+    );
+    const { searchBudget } = getDifficultySettings('hard');
+
+    for (const enemy of battleState.enemies) {
+      // Two copies of every card and plenty of mana make for a wide search
+      const wide = { ...enemy, hand: [...enemy.hand, ...enemy.deck, ...enemy.hand, ...enemy.deck], deck: [], currentMana: 10 };
+      battleState = updateCombatant(battleState, wide);
+      battleState = { ...battleState, currentTurnIndex: battleState.turnOrder.findIndex(p => p.instanceId === enemy.instanceId) };
+      vi.mocked(resolveCardEffect).mockClear();
+
+      chooseEnemyActionAtDifficulty(battleState, wide, 'hard');
+
+      expect(vi.mocked(resolveCardEffect).mock.calls.length).toBeGreaterThan(0);
+      expect(vi.mocked(resolveCardEffect).mock.calls.length).toBeLessThanOrEqual(searchBudget);
+    }
+  });
+});
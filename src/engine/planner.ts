@@ -0,0 +1,151 @@
+import type { Action, BattleState, PokemonCombatState } from './types';
+import { getCardDefinition } from '../config/cards';
+import type { CardDefinition } from '../config/cards';
+import type { DifficultySettings } from '../config/difficulty';
+import { processTurn } from './battle';
+import { getLegalActions } from './actions';
+import { findCombatant, syncTurnOrder } from './combatants';
+import { shuffle } from './deck';
+import { createRng } from './random';
+
+// Score weights for a planned outcome, from the acting side's point of view
+const WIN_SCORE = 1000;
+const FAINT_SCORE = 40;
+const EFFECT_STACK_SCORE = 3;
+const BLOCK_SCORE = 0.8; // Per point of block that stops expected damage
+
+// Moves the simulation's RNG away from the battle's, so simulated shuffles and random effects don't follow the real ones
+const PLANNING_SEED_OFFSET = 104729;
+
+// Search the engine for the sequence of card plays that leaves the acting side best off.
+// Every candidate is played out with processTurn, so the plan sees exactly what the cards would do.
+export function planTurn(
+  battleState: BattleState,
+  actor: PokemonCombatState,
+  settings: DifficultySettings
+): Action[] {
+  const budget = { remaining: settings.searchBudget };
+  const { actions } = search(hideDeckOrder(battleState), actor.instanceId, settings.searchDepth, settings.searchWidth, budget);
+  return [...actions, { type: 'endTurn' }];
+}
+
+// The battle as a planner may see it: every deck is put in an order that depends only on its
+// contents and the RNG is replaced, so simulated draws and discards reveal nothing about real ones
+export function hideDeckOrder(battleState: BattleState): BattleState {
+  let rng = createRng(battleState.rng + PLANNING_SEED_OFFSET);
+  const reshuffle = (pokemon: PokemonCombatState): PokemonCombatState => {
+    const { shuffled, rng: newRng } = shuffle([...pokemon.deck].sort(), rng);
+    rng = newRng;
+    return { ...pokemon, deck: shuffled };
+  };
+
+  const playerParty = battleState.playerParty.map(reshuffle);
+  const enemies = battleState.enemies.map(reshuffle);
+  return syncTurnOrder({ ...battleState, playerParty, enemies, rng });
+}
+
+function search(
+  battleState: BattleState,
+  actorId: string,
+  depth: number,
+  width: number,
+  budget: { remaining: number } // Simulations left, shared by the whole search
+): { actions: Action[]; score: number } {
+  let best = { actions: [] as Action[], score: evaluate(battleState, actorId) };
+  if (depth === 0 || budget.remaining <= 0 || battleState.result !== 'ongoing') {
+    return best;
+  }
+
+  // Look one card ahead for every option the budget allows, then search further from the most promising
+  const candidates = getCandidatePlays(battleState, actorId).slice(0, budget.remaining);
+  budget.remaining -= candidates.length;
+  const options = candidates
+    .map(action => {
+      const state = processTurn(battleState, action);
+      return { action, state, score: evaluate(state, actorId) };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, width);
+
+  for (const option of options) {
+    const result = search(option.state, actorId, depth - 1, width, budget);
+    if (result.score > best.score) {
+      best = { actions: [option.action, ...result.actions], score: result.score };
+    }
+  }
+
+  return best;
+}
+
+// Every legal card play for the actor, at each valid target
+function getCandidatePlays(battleState: BattleState, actorId: string): Action[] {
+  return getLegalActions(battleState).filter(action => action.type === 'playCard' && action.casterId === actorId);
+}
+
+function getSides(
+  battleState: BattleState,
+  actor: PokemonCombatState
+): { allies: PokemonCombatState[]; opponents: PokemonCombatState[] } {
+  return actor.playerId
+    ? { allies: battleState.playerParty, opponents: battleState.enemies }
+    : { allies: battleState.enemies, opponents: battleState.playerParty };
+}
+
+// Higher is better for the actor's side. Damage is worth more against weakened targets, so the
+// plan focuses them; block only counts up to the damage the other side is expected to deal.
+function evaluate(battleState: BattleState, actorId: string): number {
+  const actor = findCombatant(battleState, actorId);
+  if (!actor) return 0;
+
+  const { allies, opponents } = getSides(battleState, actor);
+  const standingOpponents = opponents.filter(p => p.currentHp > 0);
+  const standingAllies = allies.filter(p => p.currentHp > 0);
+  if (standingOpponents.length === 0) return WIN_SCORE;
+  if (standingAllies.length === 0) return -WIN_SCORE;
+
+  const threatPerAlly = standingOpponents.reduce((sum, p) => sum + estimateDamagePerTurn(p), 0) / standingAllies.length;
+  let score = 0;
+
+  for (const opponent of opponents) {
+    if (opponent.currentHp <= 0) {
+      score += FAINT_SCORE;
+      continue;
+    }
+    score -= opponent.currentHp * (1.5 - opponent.currentHp / opponent.maxHp / 2);
+    score += countStacks(opponent.statuses) * EFFECT_STACK_SCORE;
+  }
+
+  for (const ally of allies) {
+    if (ally.currentHp <= 0) {
+      score -= FAINT_SCORE;
+      continue;
+    }
+    score += ally.currentHp;
+    score += Math.min(ally.block, threatPerAlly) * BLOCK_SCORE;
+    score += countStacks(ally.buffs) * EFFECT_STACK_SCORE;
+    score -= countStacks(ally.statuses) * EFFECT_STACK_SCORE;
+  }
+
+  return score;
+}
+
+function countStacks(effects: Array<{ stacks: number }>): number {
+  return effects.reduce((sum, effect) => sum + effect.stacks, 0);
+}
+
+// Rough damage a Pokemon deals in a turn: its average damage per mana across all its cards,
+// times the mana it will have
+function estimateDamagePerTurn(pokemon: PokemonCombatState): number {
+  const cards = [...pokemon.hand, ...pokemon.deck, ...pokemon.discard]
+    .map(getCardDefinition)
+    .filter((card): card is CardDefinition => card !== undefined);
+  const totalCost = cards.reduce((sum, card) => sum + Math.max(1, card.cost), 0);
+  if (totalCost === 0) return 0;
+
+  const totalDamage = cards.reduce(
+    (sum, card) => sum + card.effects.reduce((s, e) => s + (e.type === 'damage' && e.side === 'enemy' ? e.amount : 0), 0),
+    0
+  );
+  const mana = Math.min(pokemon.maxMana, pokemon.currentMana + pokemon.manaRegen);
+  return (totalDamage / totalCost) * mana;
+}
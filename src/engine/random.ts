@@ -0,0 +1,43 @@
+// RNG state is a plain number so it can be saved with the game and threaded through pure functions
+export type RngState = number;
+
+const MODULUS = 233280;
+
+export function createRng(seed: number): RngState {
+  return ((Math.floor(seed) % MODULUS) + MODULUS) % MODULUS;
+}
+
+// A value in [0, 1), plus the state to use for the next draw
+export function nextRandom(rng: RngState): { value: number; rng: RngState } {
+  const next = (rng * 9301 + 49297) % MODULUS;
+  return { value: next / MODULUS, rng: next };
+}
+
+// Mutable wrapper for code that makes several random choices in a row.
+// Read getState() afterwards to carry the RNG forward.
+export class SeededRandom {
+  private state: RngState;
+
+  constructor(seed: number) {
+    this.state = createRng(seed);
+  }
+
+  next(): number {
+    const { value, rng } = nextRandom(this.state);
+    this.state = rng;
+    return value;
+  }
+
+  getState(): RngState {
+    return this.state;
+  }
+
+  // Integer in [min, max]
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
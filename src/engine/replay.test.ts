@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn } from './battle';
+import { createBattleRecording, recordAction, replayBattle, replayBattleSteps } from './replay';
+import { getCardDefinition } from '../config/cards';
+import type { Action, BattleRecording, BattleState, CombatantSetup } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+const party: CombatantSetup[] = [
+  { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+  { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2', currentHp: 20 },
+];
+const enemies: CombatantSetup[] = [{ pokemonId: 'magnemite' as PokemonId }, { pokemonId: 'zubat' as PokemonId }];
+
+// Players play their first affordable card on the first standing enemy; enemies pass
+function chooseAction(battleState: BattleState): Action {
+  const current = battleState.turnOrder[battleState.currentTurnIndex];
+  const target = battleState.enemies.find(e => e.currentHp > 0);
+  const cardId = current.playerId
+    ? current.hand.find(id => (getCardDefinition(id)?.cost ?? Infinity) <= current.currentMana)
+    : undefined;
+
+  return cardId && target
+    ? { type: 'playCard', cardId, casterId: current.instanceId, targetIds: [target.instanceId] }
+    : { type: 'endTurn' };
+}
+
+// Play a live battle, recording every action as the UI does
+function playRecordedBattle(seed: number, maxActions = 60): { live: BattleState; recording: BattleRecording } {
+  let live = createBattleState(party, enemies, seed);
+  let recording = createBattleRecording(party, enemies, seed);
+
+  for (let i = 0; i < maxActions && live.result === 'ongoing'; i++) {
+    const action = chooseAction(live);
+    live = processTurn(live, action);
+    recording = recordAction(recording, action);
+  }
+
+  return { live, recording };
+}
+
+describe('Battle replays', () => {
+  it('should reproduce the identical final state', () => {
+    const { live, recording } = playRecordedBattle(2024);
+
+    expect(recording.actions.length).toBeGreaterThan(0);
+    expect(replayBattle(recording)).toEqual(live);
+  });
+
+  it('should reproduce the battle from a recording saved as JSON', () => {
+    const { live, recording } = playRecordedBattle(77);
+
+    expect(replayBattle(JSON.parse(JSON.stringify(recording)))).toEqual(live);
+  });
+
+  it('should replay a prefix of the actions', () => {
+    const { recording } = playRecordedBattle(5);
+    const partial = replayBattle(recording, 3);
+
+    const expected = recording.actions.slice(0, 3).reduce(
+      (state, action) => processTurn(state, action),
+      createBattleState(party, enemies, 5)
+    );
+    expect(partial).toEqual(expected);
+  });
+
+  it('should give a state for every step of the replay', () => {
+    const { live, recording } = playRecordedBattle(11);
+    const steps = replayBattleSteps(recording);
+
+    expect(steps).toHaveLength(recording.actions.length + 1);
+    expect(steps[0].events).toEqual([]);
+    expect(steps[steps.length - 1].state).toEqual(live);
+  });
+
+  it('should not change when the party changes after recording', () => {
+    const setup = party.map(p => ({ ...p, deck: ['ember_1', 'ember_1', 'ember_1', 'ember_1', 'ember_1'] }));
+    const recording = createBattleRecording(setup, enemies, 1);
+    setup[0].deck.push('burn_1');
+
+    expect(recording.playerParty[0].deck).toHaveLength(5);
+  });
+});
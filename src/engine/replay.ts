@@ -0,0 +1,58 @@
+import type { BattleState, BattleEvent, BattleRecording, CombatantSetup, Action } from './types';
+import type { RngState } from './random';
+import type { Difficulty } from '../config/difficulty';
+import { createBattleState, processTurn, resolveTurn } from './battle';
+
+// Snapshot the setup so later changes to the party (HP, decks) don't alter the recording
+function copySetup(setup: CombatantSetup): CombatantSetup {
+  return {
+    ...setup,
+    deck: setup.deck ? [...setup.deck] : undefined,
+    bonuses: setup.bonuses ? { ...setup.bonuses } : undefined,
+  };
+}
+
+export function createBattleRecording(
+  playerParty: CombatantSetup[],
+  enemies: CombatantSetup[],
+  rng: RngState,
+  difficulty?: Difficulty
+): BattleRecording {
+  return {
+    rng,
+    playerParty: playerParty.map(copySetup),
+    enemies: enemies.map(copySetup),
+    difficulty,
+    actions: [],
+  };
+}
+
+export function recordAction(recording: BattleRecording, action: Action): BattleRecording {
+  return { ...recording, actions: [...recording.actions, action] };
+}
+
+export function startRecordedBattle(recording: BattleRecording): BattleState {
+  return createBattleState(recording.playerParty, recording.enemies, recording.rng, recording.difficulty);
+}
+
+// Re-run the first actionCount actions (all of them by default) from the recorded setup
+export function replayBattle(
+  recording: BattleRecording,
+  actionCount: number = recording.actions.length
+): BattleState {
+  return recording.actions
+    .slice(0, actionCount)
+    .reduce((state, action) => processTurn(state, action), startRecordedBattle(recording));
+}
+
+// Every state of the replay, from the start of the battle to after the last action,
+// with the events each action produced
+export function replayBattleSteps(
+  recording: BattleRecording
+): Array<{ state: BattleState; events: BattleEvent[] }> {
+  const steps = [{ state: startRecordedBattle(recording), events: [] as BattleEvent[] }];
+  for (const action of recording.actions) {
+    steps.push(resolveTurn(steps[steps.length - 1].state, action));
+  }
+  return steps;
+}
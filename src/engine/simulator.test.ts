@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { simulateBattle, simulateEncounters, simulateCampaigns } from './simulator';
+import { ENCOUNTERS } from '../config/encounters';
+import type { CombatantSetup } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+const party: CombatantSetup[] = [
+  { pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' },
+  { pokemonId: 'pikachu' as PokemonId, playerId: '2', playerName: 'Player 2' },
+];
+const enemies: CombatantSetup[] = [{ pokemonId: 'rattata' as PokemonId }];
+
+describe('Battle simulation', () => {
+  it('should play a battle to the end', () => {
+    const battle = simulateBattle(party, enemies, { seed: 3 });
+
+    expect(battle.state.result).not.toBe('ongoing');
+    expect(battle.rounds).toBe(battle.state.currentRound);
+  });
+
+  it('should give the same result from the same seed', () => {
+    expect(simulateBattle(party, enemies, { seed: 8 })).toEqual(simulateBattle(party, enemies, { seed: 8 }));
+  });
+
+  it('should credit damage to the cards that dealt it', () => {
+    // Pikachu deals no damage over time, so Rattata's HP comes off only through its cards
+    const battle = simulateBattle([party[1]], enemies, { seed: 3 });
+    const partyDamage = Object.values(battle.damageByCard).reduce((sum, damage) => sum + damage, 0);
+
+    if (battle.state.result === 'victory') {
+      expect(partyDamage).toBeGreaterThanOrEqual(battle.state.enemies[0].maxHp);
+    }
+    expect(partyDamage).toBeGreaterThan(0);
+  });
+
+  it('should stop stalled battles after the round limit', () => {
+    const pass = () => [];
+    const battle = simulateBattle(party, enemies, { seed: 1, playerPolicy: pass, enemyPolicy: pass, maxRounds: 5 });
+
+    expect(battle.state.result).toBe('ongoing');
+    expect(battle.rounds).toBe(6);
+  });
+});
+
+describe('Batch simulation', () => {
+  it('should report on every encounter', () => {
+    const reports = simulateEncounters(party, { battlesPerEncounter: 2 });
+
+    expect(reports.map(report => report.encounterId)).toEqual(Object.keys(ENCOUNTERS));
+    reports.forEach(report => {
+      expect(report.battles).toBe(2);
+      expect(report.winRate).toBe(report.wins / 2);
+      expect(report.averageHpRemainingPercent).toBeGreaterThanOrEqual(0);
+      expect(report.averageHpRemainingPercent).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('should play whole campaigns', () => {
+    const report = simulateCampaigns(
+      [{ id: '1', name: 'Player 1', pokemonId: 'charmander' as PokemonId }],
+      { runs: 3, seed: 4 }
+    );
+
+    expect(report.runs).toBe(3);
+    expect(report.winRate).toBe(report.wins / 3);
+    expect(report.encounters.reduce((sum, e) => sum + e.battles, 0)).toBeGreaterThanOrEqual(3);
+  });
+});
@@ -0,0 +1,269 @@
+import type { Action, BattleState, CampaignState, CombatantSetup, PokemonCombatState } from './types';
+import { createBattleState, resolveTurn } from './battle';
+import { choosePlayerAction } from './ai';
+import { getIntentActions } from './intents';
+import {
+  createCampaignState, recordBattleResult, getAvailablePaths, progressToNode, checkEvolutionCheckpoint,
+  applyEvolutions, createCardRewards, addCardToDeck, canUpgradeCard, upgradeCard, isEventChoiceAvailable,
+  resolveEventChoice, getEncounterDifficulty,
+} from './campaign';
+import { generateCampaignMap } from './mapGenerator';
+import { SeededRandom } from './random';
+import { ENCOUNTERS, getEncounter } from '../config/encounters';
+import { getNode } from '../config/campaign';
+import type { CampaignMap } from '../config/campaign';
+import { getEvent } from '../config/events';
+import type { PokemonId } from '../config/pokemon';
+import { DEFAULT_DIFFICULTY, getHarderDifficulty } from '../config/difficulty';
+import type { Difficulty } from '../config/difficulty';
+
+// Chooses a combatant's actions for its turn, like the enemy AI does
+export type BattlePolicy = (battleState: BattleState, combatant: PokemonCombatState) => Action[];
+
+export interface SimulationOptions {
+  seed?: number;
+  playerPolicy?: BattlePolicy;
+  enemyPolicy?: BattlePolicy; // Defaults to the enemies' intents, planned at the difficulty below
+  difficulty?: Difficulty; // Raised to each encounter's minimum, as in a campaign
+  maxRounds?: number; // Battles still going after this many rounds count as losses
+}
+
+export const DEFAULT_MAX_ROUNDS = 50;
+
+export interface BattleSimulation {
+  state: BattleState;
+  rounds: number;
+  damageByCard: Record<string, number>; // HP damage dealt by each of the party's cards, after block
+  enemyDamageByCard: Record<string, number>; // The same for the enemies' cards
+}
+
+export interface EncounterReport {
+  encounterId: string;
+  battles: number;
+  wins: number;
+  winRate: number;
+  averageRounds: number;
+  averageHpRemaining: number; // Party HP left at the end (0 after a loss)
+  averageHpRemainingPercent: number; // The same, as a percentage of the party's max HP
+  damageByCard: Record<string, number>; // Average per battle
+  enemyDamageByCard: Record<string, number>;
+}
+
+export interface CampaignReport {
+  runs: number;
+  wins: number;
+  winRate: number;
+  averageNodesCleared: number;
+  encounters: EncounterReport[]; // Every battle fought across all runs
+}
+
+// Play a battle to the end with AI policies for both sides
+export function simulateBattle(
+  playerParty: CombatantSetup[],
+  enemies: CombatantSetup[],
+  options: SimulationOptions = {}
+): BattleSimulation {
+  const playerPolicy = options.playerPolicy ?? choosePlayerAction;
+  const enemyPolicy = options.enemyPolicy ?? getIntentActions;
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_ROUNDS;
+  const damageByCard: Record<string, number> = {};
+  const enemyDamageByCard: Record<string, number> = {};
+
+  let state = createBattleState(playerParty, enemies, options.seed, options.difficulty);
+
+  while (state.result === 'ongoing' && state.currentRound <= maxRounds) {
+    const current = state.turnOrder[state.currentTurnIndex];
+    const turn = `${state.currentRound}-${state.currentTurnIndex}`;
+    const policy = current.playerId ? playerPolicy : enemyPolicy;
+
+    for (const action of policy(state, current)) {
+      const { state: next, events } = resolveTurn(state, action);
+      state = next;
+
+      if (action.type === 'playCard') {
+        const tally = current.playerId ? damageByCard : enemyDamageByCard;
+        for (const event of events) {
+          if (event.type === 'damageDealt' && event.sourceId === action.casterId) {
+            tally[action.cardId] = (tally[action.cardId] ?? 0) + event.amount;
+          }
+        }
+      }
+      if (state.result !== 'ongoing' || `${state.currentRound}-${state.currentTurnIndex}` !== turn) {
+        break;
+      }
+    }
+
+    // Policies that don't end their turn would stall the battle
+    if (state.result === 'ongoing' && `${state.currentRound}-${state.currentTurnIndex}` === turn) {
+      state = resolveTurn(state, { type: 'endTurn' }).state;
+    }
+  }
+
+  return { state, rounds: state.currentRound, damageByCard, enemyDamageByCard };
+}
+
+interface EncounterTally {
+  battles: number;
+  wins: number;
+  rounds: number;
+  hpRemaining: number;
+  hpRemainingPercent: number;
+  damageByCard: Record<string, number>;
+  enemyDamageByCard: Record<string, number>;
+}
+
+function tallyBattle(tallies: Map<string, EncounterTally>, encounterId: string, battle: BattleSimulation): void {
+  const tally = tallies.get(encounterId) ?? { battles: 0, wins: 0, rounds: 0, hpRemaining: 0, hpRemainingPercent: 0, damageByCard: {}, enemyDamageByCard: {} };
+  const won = battle.state.result === 'victory';
+  const hpRemaining = won ? battle.state.playerParty.reduce((sum, p) => sum + p.currentHp, 0) : 0;
+  const maxHp = battle.state.playerParty.reduce((sum, p) => sum + p.maxHp, 0);
+
+  tally.battles += 1;
+  tally.wins += won ? 1 : 0;
+  tally.rounds += battle.rounds;
+  tally.hpRemaining += hpRemaining;
+  tally.hpRemainingPercent += maxHp > 0 ? (hpRemaining / maxHp) * 100 : 0;
+  addDamage(tally.damageByCard, battle.damageByCard);
+  addDamage(tally.enemyDamageByCard, battle.enemyDamageByCard);
+  tallies.set(encounterId, tally);
+}
+
+function addDamage(total: Record<string, number>, damageByCard: Record<string, number>): void {
+  for (const [cardId, damage] of Object.entries(damageByCard)) {
+    total[cardId] = (total[cardId] ?? 0) + damage;
+  }
+}
+
+function averageDamage(damageByCard: Record<string, number>, battles: number): Record<string, number> {
+  return Object.fromEntries(Object.entries(damageByCard).map(([cardId, damage]) => [cardId, damage / battles]));
+}
+
+function summarize(tallies: Map<string, EncounterTally>): EncounterReport[] {
+  return [...tallies.entries()].map(([encounterId, tally]) => ({
+    encounterId,
+    battles: tally.battles,
+    wins: tally.wins,
+    winRate: tally.wins / tally.battles,
+    averageRounds: tally.rounds / tally.battles,
+    averageHpRemaining: tally.hpRemaining / tally.battles,
+    averageHpRemainingPercent: tally.hpRemainingPercent / tally.battles,
+    damageByCard: averageDamage(tally.damageByCard, tally.battles),
+    enemyDamageByCard: averageDamage(tally.enemyDamageByCard, tally.battles),
+  }));
+}
+
+// Fight each encounter (all of ENCOUNTERS by default) many times with a fresh party
+export function simulateEncounters(
+  playerParty: CombatantSetup[],
+  options: SimulationOptions & { battlesPerEncounter?: number; encounterIds?: string[] } = {}
+): EncounterReport[] {
+  const battlesPerEncounter = options.battlesPerEncounter ?? 100;
+  const encounterIds = options.encounterIds ?? Object.keys(ENCOUNTERS);
+  const seed = options.seed ?? 1;
+  const tallies = new Map<string, EncounterTally>();
+
+  for (const encounterId of encounterIds) {
+    const encounter = getEncounter(encounterId);
+    if (!encounter) continue;
+
+    const enemies = encounter.enemies.map(e => ({ pokemonId: e.pokemonId }));
+    const difficulty = getHarderDifficulty(options.difficulty ?? DEFAULT_DIFFICULTY, encounter.minDifficulty ?? 'easy');
+    for (let i = 0; i < battlesPerEncounter; i++) {
+      tallyBattle(tallies, encounterId, simulateBattle(playerParty, enemies, { ...options, difficulty, seed: seed + i }));
+    }
+  }
+
+  return summarize(tallies);
+}
+
+// Play whole campaigns: random paths, first available event choices, the first card of each
+// reward and upgrades at every workshop. Each run uses a freshly generated map unless one is given.
+export function simulateCampaigns(
+  players: Array<{ id: string; name: string; pokemonId: PokemonId }>,
+  options: SimulationOptions & { runs?: number; map?: CampaignMap } = {}
+): CampaignReport {
+  const runs = options.runs ?? 100;
+  const seed = options.seed ?? 1;
+  const tallies = new Map<string, EncounterTally>();
+  let wins = 0;
+  let nodesCleared = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const runSeed = seed + run;
+    const result = simulateCampaign(
+      createCampaignState(players, options.map ?? generateCampaignMap(runSeed), runSeed, options.difficulty),
+      new SeededRandom(runSeed),
+      options,
+      tallies
+    );
+    wins += result.won ? 1 : 0;
+    nodesCleared += result.nodesCleared;
+  }
+
+  return {
+    runs,
+    wins,
+    winRate: wins / runs,
+    averageNodesCleared: nodesCleared / runs,
+    encounters: summarize(tallies),
+  };
+}
+
+function simulateCampaign(
+  initialCampaign: CampaignState,
+  random: SeededRandom,
+  options: SimulationOptions,
+  tallies: Map<string, EncounterTally>
+): { won: boolean; nodesCleared: number } {
+  let campaign = initialCampaign;
+  let nodesCleared = 0;
+
+  // Returns undefined if the party lost
+  const fight = (current: CampaignState, encounterId: string): CampaignState | undefined => {
+    const encounter = getEncounter(encounterId);
+    if (!encounter) return current;
+
+    const enemies = encounter.enemies.map(e => ({ pokemonId: e.pokemonId }));
+    const difficulty = getEncounterDifficulty(current, encounterId);
+    const battle = simulateBattle(current.party, enemies, { ...options, difficulty, seed: current.rng });
+    tallyBattle(tallies, encounterId, battle);
+    if (battle.state.result !== 'victory') return undefined;
+
+    const recorded = recordBattleResult(current, battle.state);
+    const evolutions = checkEvolutionCheckpoint(recorded, recorded.currentNodeId);
+    const evolved = evolutions.length > 0 ? applyEvolutions(recorded, evolutions) : recorded;
+    const { rewards, campaign: rewarded } = createCardRewards(evolved);
+    return rewards.reduce((c, reward) => addCardToDeck(c, reward.partyIndex, reward.options[0]), rewarded);
+  };
+
+  while (getAvailablePaths(campaign).length > 0) {
+    const nodeId = random.pick(getAvailablePaths(campaign));
+    const node = getNode(nodeId, campaign.map);
+    if (!node) break;
+
+    let next: CampaignState | undefined = progressToNode(campaign, nodeId);
+    if ((node.type === 'battle' || node.type === 'boss') && node.encounterId) {
+      next = fight(next, node.encounterId);
+    } else if (node.type === 'evolution') {
+      next = applyEvolutions(next, checkEvolutionCheckpoint(next, nodeId));
+    } else if (node.type === 'smith') {
+      next = next.party.reduce((c, member, partyIndex) => {
+        const deckIndex = member.deck.findIndex(canUpgradeCard);
+        return deckIndex >= 0 ? upgradeCard(c, partyIndex, deckIndex) : c;
+      }, next);
+    } else if (node.eventId) {
+      const current = next;
+      const choiceIndex = getEvent(node.eventId)?.choices.findIndex(choice => isEventChoiceAvailable(current, choice)) ?? -1;
+      const { campaign: resolved, encounterId } = resolveEventChoice(current, node.eventId, choiceIndex);
+      next = encounterId ? fight(resolved, encounterId) : resolved;
+    }
+
+    if (!next) {
+      return { won: false, nodesCleared };
+    }
+    campaign = next;
+    nodesCleared += 1;
+  }
+
+  return { won: true, nodesCleared };
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn, calculateTurnOrder } from './battle';
+import { applyStatus, applyBuff, processEndOfTurnStatuses, getStatusStacks } from './status';
+import { updateCombatant } from './combatants';
+import { calculateDamage } from './damage';
+import type { BattleState } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+// Pikachu (speed 90) acts before Magnemite (speed 45)
+function createBattle(): BattleState {
+  return createBattleState(
+    [{ pokemonId: 'pikachu' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+    [{ pokemonId: 'magnemite' as PokemonId }]
+  );
+}
+
+describe('Status effects', () => {
+  describe('End of turn', () => {
+    it('should deal damage for poison and burn, then decay', () => {
+      const battleState = createBattle();
+      let pokemon = applyStatus(battleState.enemies[0], 'poison', 2);
+      pokemon = applyStatus(pokemon, 'burn', 3);
+      
+      const updated = processEndOfTurnStatuses(pokemon);
+      
+      expect(updated.currentHp).toBe(pokemon.currentHp - 5);
+      expect(updated.statuses).toEqual([
+        { type: 'poison', stacks: 1 },
+        { type: 'burn', stacks: 2 },
+      ]);
+    });
+
+    it('should decay freeze without dealing damage, leaving paralyze for the next round', () => {
+      const battleState = createBattle();
+      let pokemon = applyStatus(battleState.enemies[0], 'freeze', 1);
+      pokemon = applyStatus(pokemon, 'paralyze', 2);
+      
+      const updated = processEndOfTurnStatuses(pokemon);
+      
+      expect(updated.currentHp).toBe(pokemon.currentHp);
+      expect(updated.statuses).toEqual([{ type: 'paralyze', stacks: 2 }]);
+    });
+  });
+
+  describe('Freeze', () => {
+    it('should skip the frozen Pokemon\'s turn', () => {
+      const battleState = createBattle();
+      battleState.enemies[0] = applyStatus(battleState.enemies[0], 'freeze', 1);
+      battleState.turnOrder[1] = battleState.enemies[0];
+      
+      // Pikachu ends its turn; the frozen Magnemite is skipped and the next round starts
+      const newState = processTurn(battleState, { type: 'endTurn' });
+      
+      expect(newState.currentRound).toBe(2);
+      expect(newState.turnOrder[newState.currentTurnIndex].instanceId).toBe('player-0');
+      expect(newState.enemies[0].statuses).toEqual([]);
+    });
+  });
+
+  describe('Paralyze', () => {
+    it('should halve speed when calculating turn order', () => {
+      const battleState = createBattle();
+      const pikachu = battleState.playerParty[0];
+      const enemy = { ...battleState.enemies[0], speed: 60 };
+      
+      expect(calculateTurnOrder([pikachu, enemy]).map(p => p.instanceId)).toEqual(['player-0', 'enemy-0']);
+      
+      // Paralyzed Pikachu drops from 90 to 45 speed
+      const paralyzed = applyStatus(pikachu, 'paralyze', 1);
+      expect(calculateTurnOrder([paralyzed, enemy]).map(p => p.instanceId)).toEqual(['enemy-0', 'player-0']);
+    });
+
+    it('should slow a target that has yet to act for the next round, then wear off', () => {
+      let battleState = createBattleState(
+        [{ pokemonId: 'pikachu' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+        [{ pokemonId: 'magnemite' as PokemonId }, { pokemonId: 'magnemite' as PokemonId }]
+      );
+      // enemy-0 (speed 60) acts before enemy-1 (speed 45) unless paralyzed
+      battleState = updateCombatant(battleState, { ...battleState.enemies[0], speed: 60 });
+      battleState = { ...battleState, turnOrder: calculateTurnOrder([...battleState.playerParty, ...battleState.enemies]) };
+      battleState = updateCombatant(battleState, { ...battleState.playerParty[0], hand: ['thunderbolt_1'], currentMana: 2 });
+      expect(battleState.turnOrder.map(p => p.instanceId)).toEqual(['player-0', 'enemy-0', 'enemy-1']);
+
+      battleState = processTurn(battleState, { type: 'playCard', casterId: 'player-0', cardId: 'thunderbolt_1', targetIds: ['enemy-0'] });
+      for (let i = 0; i < 3; i++) {
+        battleState = processTurn(battleState, { type: 'endTurn' });
+      }
+
+      expect(battleState.currentRound).toBe(2);
+      expect(battleState.turnOrder.map(p => p.instanceId)).toEqual(['player-0', 'enemy-1', 'enemy-0']);
+      expect(getStatusStacks(battleState.enemies[0], 'paralyze')).toBe(0);
+    });
+  });
+
+  describe('Burn', () => {
+    it('should reduce outgoing damage', () => {
+      const battleState = createBattle();
+      const burned = applyStatus(battleState.playerParty[0], 'burn', 2);
+      
+      expect(calculateDamage(battleState.playerParty[0], battleState.enemies[0], 8).beforeBlock).toBe(8);
+      expect(calculateDamage(burned, battleState.enemies[0], 8).beforeBlock).toBe(6);
+    });
+  });
+
+  describe('Registry hooks', () => {
+    it('should thaw freeze when burn is applied', () => {
+      const battleState = createBattle();
+      const frozen = applyStatus(battleState.enemies[0], 'freeze', 1);
+      
+      expect(applyStatus(frozen, 'burn', 1).statuses).toEqual([{ type: 'burn', stacks: 1 }]);
+    });
+
+    it('should heal with regen and decay it', () => {
+      const battleState = createBattle();
+      const hurt = { ...battleState.playerParty[0], currentHp: 40 };
+      
+      const updated = processEndOfTurnStatuses(applyBuff(hurt, 'regen', 3));
+      
+      expect(updated.currentHp).toBe(43);
+      expect(updated.buffs).toEqual([{ type: 'regen', stacks: 2 }]);
+    });
+
+    it('should keep attackUp for the rest of the battle', () => {
+      const battleState = createBattle();
+      const buffed = applyBuff(battleState.playerParty[0], 'attackUp', 2);
+      
+      const updated = processEndOfTurnStatuses(buffed);
+      
+      expect(updated.buffs).toEqual([{ type: 'attackUp', stacks: 2 }]);
+      expect(calculateDamage(updated, battleState.enemies[0], 6).beforeBlock).toBe(8);
+    });
+
+    it('should reduce incoming damage with defenseUp and retaliate with thorns', () => {
+      const battleState = createBattle();
+      let defender = applyBuff(battleState.enemies[0], 'defenseUp', 2);
+      defender = applyBuff(defender, 'thorns', 3);
+      
+      expect(calculateDamage(battleState.playerParty[0], defender, 6)).toMatchObject({ beforeBlock: 4, retaliation: 3 });
+    });
+
+    it('should reflect thorns damage onto the attacker during card resolution', () => {
+      const battleState = createBattle();
+      const player = battleState.playerParty[0];
+      battleState.enemies[0] = applyBuff(battleState.enemies[0], 'thorns', 2);
+      
+      if (!player.hand.includes('thundershock_1')) {
+        player.hand.push('thundershock_1');
+      }
+      
+      const newState = processTurn(battleState, {
+        type: 'playCard',
+        cardId: 'thundershock_1',
+        casterId: player.instanceId,
+        targetIds: [battleState.enemies[0].instanceId],
+      });
+      
+      // Thundershock is not very effective against Magnemite, even with STAB: 6 * 1.25 * 0.5
+      expect(newState.playerParty[0].currentHp).toBe(player.currentHp - 2);
+      expect(newState.enemies[0].currentHp).toBe(battleState.enemies[0].currentHp - 3);
+    });
+  });
+});
@@ -1,5 +1,48 @@
-import type { PokemonCombatState, StatusEffect, BuffEffect } from './types';
+import type { PokemonCombatState, BattleEvent } from './types';
 import type { StatusType, BuffType } from '../config/cards';
+import type { EffectDefinition } from '../config/statuses';
+import { getStatusDefinition, getBuffDefinition } from '../config/statuses';
+
+export interface ActiveEffect {
+  type: StatusType | BuffType;
+  definition: EffectDefinition;
+  stacks: number;
+}
+
+// Decay the effects that wear off at this point; round-decaying ones only wear off when a round starts
+function decayEffects(pokemon: PokemonCombatState, atRoundStart: boolean): PokemonCombatState {
+  const decay = (stacks: number, definition: EffectDefinition) =>
+    (definition.decay === 'round') === atRoundStart ? decayStacks(stacks, definition) : stacks;
+  return {
+    ...pokemon,
+    statuses: pokemon.statuses
+      .map(s => ({ ...s, stacks: decay(s.stacks, getStatusDefinition(s.type)) }))
+      .filter(s => s.stacks > 0),
+    buffs: pokemon.buffs
+      .map(b => ({ ...b, stacks: decay(b.stacks, getBuffDefinition(b.type)) }))
+      .filter(b => b.stacks > 0),
+  };
+}
+
+// Buffs first, then statuses, so flat bonuses apply before multipliers like burn
+export function getActiveEffects(pokemon: PokemonCombatState): ActiveEffect[] {
+  return [
+    ...pokemon.buffs.map(b => ({ type: b.type, definition: getBuffDefinition(b.type), stacks: b.stacks })),
+    ...pokemon.statuses.map(s => ({ type: s.type, definition: getStatusDefinition(s.type), stacks: s.stacks })),
+  ].filter(e => e.stacks > 0);
+}
+
+function decayStacks(stacks: number, definition: EffectDefinition): number {
+  switch (definition.decay) {
+    case 'never':
+      return stacks;
+    case 'stack':
+    case 'round':
+      return Math.max(0, stacks - 1);
+    case 'expire':
+      return 0;
+  }
+}
 
 export function applyStatus(
   pokemon: PokemonCombatState,
@@ -8,7 +51,7 @@ export function applyStatus(
 ): PokemonCombatState {
   const newStatuses = [...pokemon.statuses];
   const existingIndex = newStatuses.findIndex(s => s.type === statusType);
-  
+
   if (existingIndex >= 0) {
     newStatuses[existingIndex] = {
       ...newStatuses[existingIndex],
@@ -18,10 +61,9 @@ export function applyStatus(
     newStatuses.push({ type: statusType, stacks });
   }
 
-  return {
-    ...pokemon,
-    statuses: newStatuses,
-  };
+  const updated = { ...pokemon, statuses: newStatuses };
+  const { onApply } = getStatusDefinition(statusType);
+  return onApply ? onApply(updated, stacks) : updated;
 }
 
 export function applyBuff(
@@ -31,7 +73,7 @@ export function applyBuff(
 ): PokemonCombatState {
   const newBuffs = [...pokemon.buffs];
   const existingIndex = newBuffs.findIndex(b => b.type === buffType);
-  
+
   if (existingIndex >= 0) {
     newBuffs[existingIndex] = {
       ...newBuffs[existingIndex],
@@ -41,41 +83,75 @@ export function applyBuff(
     newBuffs.push({ type: buffType, stacks });
   }
 
-  return {
-    ...pokemon,
-    buffs: newBuffs,
-  };
+  const updated = { ...pokemon, buffs: newBuffs };
+  const { onApply } = getBuffDefinition(buffType);
+  return onApply ? onApply(updated, stacks) : updated;
 }
 
-export function processEndOfTurnStatuses(
+export function processStartOfTurnEffects(
   pokemon: PokemonCombatState
+): { pokemon: PokemonCombatState; skipTurn: boolean } {
+  let updated = pokemon;
+  let skipTurn = false;
+
+  for (const { definition, stacks } of getActiveEffects(pokemon)) {
+    if (definition.onTurnStart) {
+      const result = definition.onTurnStart(updated, stacks);
+      updated = result.pokemon;
+      skipTurn = skipTurn || !!result.skipTurn;
+    }
+  }
+
+  return { pokemon: updated, skipTurn };
+}
+
+export function processEndOfTurnStatuses(
+  pokemon: PokemonCombatState,
+  events: BattleEvent[] = []
 ): PokemonCombatState {
-  let newHp = pokemon.currentHp;
-  const newStatuses: StatusEffect[] = [];
-
-  // Process each status effect
-  for (const status of pokemon.statuses) {
-    // Apply damage equal to stacks
-    newHp = Math.max(0, newHp - status.stacks);
-    
-    // Decay stacks by 1 (minimum 0)
-    const newStacks = Math.max(0, status.stacks - 1);
-    if (newStacks > 0) {
-      newStatuses.push({ ...status, stacks: newStacks });
+  // Run end-of-turn hooks (e.g. poison damage, regen healing)
+  let updated = pokemon;
+  const ticked: Array<{ type: StatusType | BuffType; hpChange: number }> = [];
+  for (const { type, definition, stacks } of getActiveEffects(pokemon)) {
+    if (definition.onTurnEnd) {
+      const hpBefore = updated.currentHp;
+      updated = definition.onTurnEnd(updated, stacks);
+      ticked.push({ type, hpChange: updated.currentHp - hpBefore });
     }
   }
 
-  // Buffs don't decay, they persist
-  return {
-    ...pokemon,
-    currentHp: newHp,
-    statuses: newStatuses,
-  };
+  // Then decay each effect according to its rule
+  const decayed = decayEffects(updated, false);
+
+  for (const { type, hpChange } of ticked) {
+    const remaining = [...decayed.statuses, ...decayed.buffs].find(e => e.type === type);
+    events.push({
+      type: 'statusTicked',
+      targetId: pokemon.instanceId,
+      effect: type,
+      hpChange,
+      stacksLeft: remaining?.stacks ?? 0,
+    });
+  }
+
+  return decayed;
+}
+
+// Wear off effects like paralyze once the new round's turn order has been set
+export function processRoundStartEffects(pokemon: PokemonCombatState): PokemonCombatState {
+  return decayEffects(pokemon, true);
+}
+
+export function getStatusStacks(pokemon: PokemonCombatState, statusType: StatusType): number {
+  const status = pokemon.statuses.find(s => s.type === statusType);
+  return status ? status.stacks : 0;
 }
 
-export function getAttackUpBonus(pokemon: PokemonCombatState): number {
-  const attackUp = pokemon.buffs.find(b => b.type === 'attackUp');
-  return attackUp ? attackUp.stacks : 0;
+export function getEffectiveSpeed(pokemon: PokemonCombatState): number {
+  return getActiveEffects(pokemon).reduce(
+    (speed, { definition, stacks }) => definition.modifySpeed ? definition.modifySpeed(speed, stacks) : speed,
+    pokemon.speed
+  );
 }
 
 export function resetBlock(pokemon: PokemonCombatState): PokemonCombatState {
@@ -1,5 +1,8 @@
-import type { PokemonId } from '../config/pokemon';
+import type { PokemonId, FormationRow } from '../config/pokemon';
+import type { CampaignMap } from '../config/campaign';
+import type { RngState } from './random';
 import type { StatusType, BuffType } from '../config/cards';
+import type { Difficulty } from '../config/difficulty';
 
 export type BattleResult = 'ongoing' | 'victory' | 'defeat';
 
@@ -14,6 +17,7 @@ export interface BuffEffect {
 }
 
 export interface PokemonCombatState {
+  instanceId: string; // Unique within a battle, e.g. "enemy-2" - duplicates share a pokemonId
   pokemonId: PokemonId;
   playerId?: string; // If controlled by a player
   currentHp: number;
@@ -23,12 +27,27 @@ export interface PokemonCombatState {
   manaRegen: number;
   speed: number;
   block: number; // Temporary defense, resets at end of round
+  row: FormationRow;
   statuses: StatusEffect[];
   buffs: BuffEffect[];
   hand: string[]; // Card IDs
   deck: string[]; // Card IDs
   discard: string[]; // Card IDs
+  exhaust: string[]; // Card IDs removed for the rest of the battle
+  retain: number; // Cards kept in hand when this turn ends
   hasActedThisRound: boolean;
+  intent?: PlayCardAction[]; // Enemies only: the cards committed to at round start for their next turn
+}
+
+// How a combatant enters battle; campaign party members carry over HP, deck and bonuses
+export interface CombatantSetup {
+  pokemonId: PokemonId;
+  playerId?: string;
+  playerName?: string;
+  currentHp?: number; // Defaults to max HP
+  deck?: string[]; // Card IDs, defaults to the starter deck
+  bonuses?: PartyBonuses;
+  row?: FormationRow; // Defaults to the Pokemon's usual row
 }
 
 export interface BattleState {
@@ -37,10 +56,39 @@ export interface BattleState {
   turnOrder: PokemonCombatState[]; // All combatants sorted by speed
   currentTurnIndex: number; // Index in turnOrder
   currentRound: number;
-  roundActed: Set<string>; // Pokemon IDs that have acted this round
+  roundActed: Set<string>; // Instance IDs that have acted this round
   result: BattleResult;
+  rng: RngState; // Advances with every shuffle, draw and random effect
+  difficulty?: Difficulty; // How well the enemy AI plays; normal if unset
 }
 
+// Everything needed to re-run a battle: its starting setup, RNG state and every action taken
+export interface BattleRecording {
+  rng: RngState; // State the battle was created from
+  playerParty: CombatantSetup[];
+  enemies: CombatantSetup[];
+  difficulty?: Difficulty; // Enemy intents are planned at it, so replays need it too
+  actions: Action[];
+}
+
+// What happened while resolving an action, in order. IDs are combatant instance IDs.
+export type BattleEvent =
+  | { type: 'roundStart'; round: number }
+  | { type: 'turnStart'; combatantId: string }
+  | { type: 'turnSkipped'; combatantId: string } // e.g. frozen
+  | { type: 'cardPlayed'; casterId: string; cardId: string; targetIds: string[] }
+  | { type: 'damageDealt'; sourceId: string; targetId: string; amount: number; effectiveness?: number; critical?: boolean } // HP lost, after block; effectiveness only if not neutral
+  | { type: 'blockAbsorbed'; targetId: string; amount: number }
+  | { type: 'blockGained'; targetId: string; amount: number }
+  | { type: 'healed'; targetId: string; amount: number }
+  | { type: 'statusApplied'; targetId: string; status: StatusType; stacks: number }
+  | { type: 'buffGained'; targetId: string; buff: BuffType; stacks: number }
+  | { type: 'rowChanged'; targetId: string; row: FormationRow }
+  | { type: 'cardsAdded'; targetId: string; cardId: string; count: number } // To the discard pile
+  | { type: 'statusTicked'; targetId: string; effect: StatusType | BuffType; hpChange: number; stacksLeft: number }
+  | { type: 'fainted'; combatantId: string }
+  | { type: 'battleEnded'; result: BattleResult };
+
 export type Action = 
   | PlayCardAction
   | EndTurnAction
@@ -51,8 +99,8 @@ export type Action =
 export interface PlayCardAction {
   type: 'playCard';
   cardId: string;
-  casterId: string; // Pokemon ID
-  targetIds?: string[]; // Pokemon IDs (for single-target or multi-target effects)
+  casterId: string; // Combatant instance ID
+  targetIds?: string[]; // Combatant instance IDs (for single-target or multi-target effects)
 }
 
 export interface EndTurnAction {
@@ -78,21 +126,56 @@ export interface StartCampaignAction {
   }>;
 }
 
+// Permanent stat increases, added on top of the Pokemon's base stats
+export interface PartyBonuses {
+  maxHp: number;
+  maxMana: number;
+  manaRegen: number;
+  speed: number;
+}
+
+export interface PartyMember {
+  playerId?: string;
+  playerName?: string;
+  pokemonId: PokemonId;
+  currentHp: number; // Carried from battle to battle
+  deck: string[]; // Card IDs, carried from battle to battle
+  bonuses: PartyBonuses;
+}
+
 export interface CampaignState {
+  map: CampaignMap;
   currentNodeId: string;
   completedNodes: Set<string>;
-  party: Array<{
-    playerId?: string;
-    playerName?: string;
-    pokemonId: PokemonId;
-  }>;
+  party: PartyMember[];
+  currency: number; // Shared by the whole party
+  rng: RngState; // For campaign-level random choices; battles continue from it
+  difficulty: Difficulty; // Chosen for the whole run; boss encounters can raise it
+}
+
+// Cards a party member may pick one of after a victory
+export interface CardReward {
+  partyIndex: number;
+  options: string[]; // Card IDs
+}
+
+// The game as it was before a card play that can be taken back
+export interface UndoEntry {
+  battle: BattleState;
+  recordedActions: number; // Length of the battle recording
+  battleLog: BattleEvent[];
 }
 
 export interface GameState {
-  screen: 'intro' | 'playerSetup' | 'starterSelection' | 'map' | 'combat' | 'victory' | 'defeat';
+  screen: 'intro' | 'playerSetup' | 'starterSelection' | 'map' | 'combat' | 'reward' | 'smith' | 'purge' | 'event' | 'victory' | 'defeat';
   campaign?: CampaignState;
   battle?: BattleState;
+  battleLog?: BattleEvent[]; // Recent events from the current battle, oldest first
+  battleRecording?: BattleRecording; // The current (or last) battle, for replays and bug reports
+  undoStack?: UndoEntry[]; // Card plays the active player can take back; not saved
+  autopilotPlayerIds?: string[]; // Players whose Pokemon the AI plays for them
   lastBattleResult?: BattleResult;
+  cardRewards?: CardReward[];
   evolutions?: Array<{ from: PokemonId; to: PokemonId }>;
   isFinalVictory?: boolean;
   players?: Array<{
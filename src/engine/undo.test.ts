@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createBattleState, processTurn } from './battle';
+import { pushUndo, popUndo, canUndo } from './undo';
+import { updateCombatant } from './combatants';
+import type { Action, BattleState, UndoEntry } from './types';
+import type { PokemonId } from '../config/pokemon';
+
+// A battle on the given combatant's turn, holding the given hand
+function createTurn(instanceId: string, hand: string[]): BattleState {
+  let battleState = createBattleState(
+    [{ pokemonId: 'charmander' as PokemonId, playerId: '1', playerName: 'Player 1' }],
+    [{ pokemonId: 'rattata' as PokemonId }],
+    1
+  );
+  const pokemon = battleState.turnOrder.find(p => p.instanceId === instanceId)!;
+  battleState = updateCombatant(battleState, { ...pokemon, hand, currentMana: 3 });
+  return { ...battleState, currentTurnIndex: battleState.turnOrder.findIndex(p => p.instanceId === instanceId) };
+}
+
+function entryFor(battle: BattleState): UndoEntry {
+  return { battle, recordedActions: 0, battleLog: [] };
+}
+
+const ember: Action = { type: 'playCard', cardId: 'ember_1', casterId: 'player-0', targetIds: ['enemy-0'] };
+const defend: Action = { type: 'playCard', cardId: 'defend_charmander', casterId: 'player-0' };
+
+describe('Undo', () => {
+  it('should take back a player\'s card plays in reverse order', () => {
+    const start = createTurn('player-0', ['ember_1', 'defend_charmander']);
+    const afterEmber = processTurn(start, ember);
+    const afterDefend = processTurn(afterEmber, defend);
+
+    let stack = pushUndo([], entryFor(start), ember, afterEmber);
+    stack = pushUndo(stack, entryFor(afterEmber), defend, afterDefend);
+
+    const first = popUndo(stack);
+    expect(first.entry?.battle).toBe(afterEmber);
+    const second = popUndo(first.stack);
+    expect(second.entry?.battle).toBe(start);
+    expect(canUndo(second.stack)).toBe(false);
+  });
+
+  it('should leave earlier states untouched', () => {
+    const start = createTurn('player-0', ['ember_1']);
+    const snapshot = JSON.stringify({ ...start, roundActed: [...start.roundActed] });
+
+    processTurn(processTurn(start, ember), { type: 'endTurn' });
+
+    expect(JSON.stringify({ ...start, roundActed: [...start.roundActed] })).toBe(snapshot);
+  });
+
+  it('should clear when the turn ends', () => {
+    const start = createTurn('player-0', ['ember_1']);
+    const afterEmber = processTurn(start, ember);
+    const stack = pushUndo([], entryFor(start), ember, afterEmber);
+
+    expect(pushUndo(stack, entryFor(afterEmber), { type: 'endTurn' }, processTurn(afterEmber, { type: 'endTurn' }))).toEqual([]);
+  });
+
+  it('should clear once hidden information is revealed', () => {
+    const start = createTurn('player-0', ['ember_1', 'defend_charmander']);
+    const afterEmber = processTurn(start, ember);
+    const stack = pushUndo([], entryFor(start), ember, afterEmber);
+
+    // A card that used randomness, e.g. a random discard
+    const afterRandom = { ...processTurn(afterEmber, defend), rng: afterEmber.rng + 1 };
+    expect(pushUndo(stack, entryFor(afterEmber), defend, afterRandom)).toEqual([]);
+
+    // A card that drew from the deck
+    const drawn = processTurn(afterEmber, defend);
+    const player = drawn.playerParty[0];
+    const afterDraw = updateCombatant(drawn, { ...player, hand: [...player.hand, player.deck[0]], deck: player.deck.slice(1) });
+    expect(pushUndo(stack, entryFor(afterEmber), defend, afterDraw)).toEqual([]);
+  });
+
+  it('should not track enemy turns or rejected actions', () => {
+    const enemyTurn = createTurn('enemy-0', ['tackle']);
+    const tackle: Action = { type: 'playCard', cardId: 'tackle', casterId: 'enemy-0', targetIds: ['player-0'] };
+    expect(pushUndo([], entryFor(enemyTurn), tackle, processTurn(enemyTurn, tackle))).toEqual([]);
+
+    const start = createTurn('player-0', ['ember_1']);
+    const stack = pushUndo([], entryFor(start), ember, processTurn(start, ember));
+    const afterEmber = processTurn(start, ember);
+    expect(pushUndo(stack, entryFor(afterEmber), ember, processTurn(afterEmber, ember))).toBe(stack);
+  });
+});
@@ -0,0 +1,51 @@
+import type { Action, BattleState, UndoEntry } from './types';
+import { validateAction } from './actions';
+import { getAllCombatants } from './combatants';
+
+// What the game was like before each of the active player's card plays this turn, oldest first.
+// States are never changed in place, so keeping the old ones is enough to go back.
+export type UndoStack = UndoEntry[];
+
+// Track an action the engine just resolved. Card plays by players can be taken back until the
+// turn ends; anything that revealed hidden information (a shuffle, a draw, a random effect) can't,
+// and nothing before it can either.
+export function pushUndo(stack: UndoStack, entry: UndoEntry, action: Action, after: BattleState): UndoStack {
+  const before = entry.battle;
+  if (!validateAction(before, action).valid) {
+    return stack; // Rejected actions change nothing
+  }
+
+  const caster = before.turnOrder[before.currentTurnIndex];
+  const sameTurn = after.currentRound === before.currentRound && after.currentTurnIndex === before.currentTurnIndex;
+  if (
+    action.type !== 'playCard' ||
+    !caster?.playerId ||
+    !sameTurn ||
+    after.result !== 'ongoing' ||
+    revealsHiddenInformation(before, after)
+  ) {
+    return [];
+  }
+
+  return [...stack, entry];
+}
+
+export function canUndo(stack: UndoStack | undefined): boolean {
+  return (stack?.length ?? 0) > 0;
+}
+
+// The entry to go back to, and the stack without it
+export function popUndo(stack: UndoStack): { entry: UndoEntry | undefined; stack: UndoStack } {
+  return { entry: stack[stack.length - 1], stack: stack.slice(0, -1) };
+}
+
+// Randomness was used, or cards left a deck (their order is hidden until drawn)
+function revealsHiddenInformation(before: BattleState, after: BattleState): boolean {
+  if (after.rng !== before.rng) {
+    return true;
+  }
+  return getAllCombatants(after).some(pokemon => {
+    const previous = getAllCombatants(before).find(p => p.instanceId === pokemon.instanceId);
+    return previous !== undefined && previous.deck.length !== pokemon.deck.length;
+  });
+}
@@ -0,0 +1,58 @@
+import type { CardDefinition, CardEffect } from '../config/cards';
+import { getCardDefinition } from '../config/cards';
+import { getStatusDefinition, getBuffDefinition } from '../config/statuses';
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Who an effect lands on, relative to the caster
+function describeTargets(target: 'self' | 'single' | 'all', side: 'enemy' | 'ally' = 'ally'): string {
+  if (target === 'self') return 'yourself';
+  if (target === 'single') return `a single ${side}`;
+  return side === 'enemy' ? 'all enemies' : 'all allies';
+}
+
+// One line of card text, generated from the effect so it can't drift from what the card does
+function describeEffect(effect: CardEffect): string {
+  switch (effect.type) {
+    case 'damage':
+      return `Deal ${effect.amount} damage to ${describeTargets(effect.target, effect.side)}.`;
+    case 'heal':
+      return `Heal ${describeTargets(effect.target)} for ${effect.amount}.`;
+    case 'block':
+      return effect.target === 'self'
+        ? `Gain ${effect.amount} block.`
+        : `Give ${effect.amount} block to ${describeTargets(effect.target)}.`;
+    case 'status':
+      return `Apply ${effect.stacks} ${getStatusDefinition(effect.status).name} to ${describeTargets(effect.target, effect.side)}.`;
+    case 'buff': {
+      const buff = getBuffDefinition(effect.buff).name;
+      return effect.target === 'self'
+        ? `Gain ${effect.stacks} ${buff}.`
+        : `Give ${effect.stacks} ${buff} to ${describeTargets(effect.target)}.`;
+    }
+    case 'draw':
+      return `Draw ${plural(effect.amount, 'card')}.`;
+    case 'gainMana':
+      return `Gain ${effect.amount} mana.`;
+    case 'discard':
+      return `Discard ${plural(effect.amount, 'random card')}.`;
+    case 'exhaust':
+      return `Exhaust ${plural(effect.amount, 'random card')}.`;
+    case 'retain':
+      return `Keep ${plural(effect.amount, 'card')} in hand this turn.`;
+    case 'swap':
+      return 'Switch to the other row.';
+    case 'addCard': {
+      const name = getCardDefinition(effect.cardId)?.name ?? effect.cardId;
+      return `Add ${effect.count} ${name} to the discard pile of ${describeTargets(effect.target, effect.side)}.`;
+    }
+  }
+}
+
+// A card's text: one line per effect, in order, then its flavor text if it has any
+export function getCardText(card: CardDefinition): string[] {
+  const lines = card.effects.map(describeEffect);
+  return card.description ? [...lines, card.description] : lines;
+}
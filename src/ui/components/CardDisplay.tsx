@@ -1,4 +1,7 @@
 import type { CardDefinition } from '../../config/cards';
+import { KEYWORD_DESCRIPTIONS } from '../../config/cards';
+import { getCardText } from '../cardText';
+import { TypeBadge } from './TypeBadge';
 
 interface CardDisplayProps {
   card: CardDefinition;
@@ -39,7 +42,32 @@ export function CardDisplay({ card, canAfford, isSelected = false, onClick }: Ca
           {card.cost}
         </div>
       </div>
-      <div style={{ fontSize: '12px', color: '#9ca3af' }}>{card.description}</div>
+      {(card.moveType || card.range === 'melee') && (
+        <div style={{ marginBottom: '6px', display: 'flex', gap: '4px', alignItems: 'center' }}>
+          {card.moveType && <TypeBadge type={card.moveType} size="small" />}
+          {card.range === 'melee' && (
+            <span title="Only reaches the front row" style={{ fontSize: '8px', fontWeight: 'bold', color: '#fbbf24' }}>
+              MELEE
+            </span>
+          )}
+        </div>
+      )}
+      {card.keywords && card.keywords.length > 0 && (
+        <div style={{ marginBottom: '4px', display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+          {card.keywords.map(keyword => (
+            <span
+              key={keyword}
+              title={KEYWORD_DESCRIPTIONS[keyword]}
+              style={{ fontSize: '10px', fontWeight: 'bold', color: '#fbbf24', textTransform: 'capitalize' }}
+            >
+              {keyword}
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ fontSize: '12px', color: '#9ca3af' }}>
+        {getCardText(card).map((line, index) => <div key={index}>{line}</div>)}
+      </div>
     </div>
   );
 }
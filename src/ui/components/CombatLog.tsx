@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import type { BattleEvent, BattleState } from '../../engine/types';
+import { getPokemonStats } from '../../config/pokemon';
+import { getCardDefinition } from '../../config/cards';
+import { getStatusDefinition, getBuffDefinition, isStatusType } from '../../config/statuses';
+import { findCombatant } from '../../engine/combatants';
+
+interface CombatLogProps {
+  events: BattleEvent[];
+  battleState: BattleState;
+}
+
+function describeEvent(event: BattleEvent, battleState: BattleState): string | undefined {
+  const name = (instanceId: string) => {
+    const pokemon = findCombatant(battleState, instanceId);
+    return pokemon ? getPokemonStats(pokemon.pokemonId).name : instanceId;
+  };
+
+  switch (event.type) {
+    case 'roundStart':
+      return `Round ${event.round}`;
+    case 'turnStart':
+      return undefined; // Shown by the turn order bar
+    case 'turnSkipped':
+      return `${name(event.combatantId)} can't move!`;
+    case 'cardPlayed': {
+      const card = getCardDefinition(event.cardId);
+      const target = event.targetIds.length > 0 ? ` on ${event.targetIds.map(name).join(', ')}` : '';
+      return `${name(event.casterId)} used ${card?.name ?? event.cardId}${target}`;
+    }
+    case 'damageDealt': {
+      const matchup = event.effectiveness === undefined
+        ? ''
+        : event.effectiveness > 1 ? ' - super effective!' : ' - not very effective...';
+      const critical = event.critical ? ' - critical hit!' : '';
+      return `${name(event.targetId)} took ${event.amount} damage${critical}${matchup}`;
+    }
+    case 'blockAbsorbed':
+      return `${name(event.targetId)} blocked ${event.amount}`;
+    case 'blockGained':
+      return `${name(event.targetId)} gained ${event.amount} block`;
+    case 'healed':
+      return `${name(event.targetId)} healed ${event.amount}`;
+    case 'statusApplied':
+      return `${name(event.targetId)} got ${event.stacks} ${getStatusDefinition(event.status).name}`;
+    case 'buffGained':
+      return `${name(event.targetId)} gained ${event.stacks} ${getBuffDefinition(event.buff).name}`;
+    case 'cardsAdded': {
+      const card = getCardDefinition(event.cardId);
+      return `${event.count} ${card?.name ?? event.cardId} added to ${name(event.targetId)}'s discard pile`;
+    }
+    case 'rowChanged':
+      return `${name(event.targetId)} moved to the ${event.row} row`;
+    case 'statusTicked': {
+      if (event.hpChange === 0) return undefined;
+      const effectName = isStatusType(event.effect)
+        ? getStatusDefinition(event.effect).name
+        : getBuffDefinition(event.effect).name;
+      return event.hpChange < 0
+        ? `${name(event.targetId)} took ${-event.hpChange} from ${effectName}`
+        : `${name(event.targetId)} recovered ${event.hpChange} from ${effectName}`;
+    }
+    case 'fainted':
+      return `${name(event.combatantId)} fainted!`;
+    case 'battleEnded':
+      return event.result === 'victory' ? 'Victory!' : 'Defeat...';
+  }
+}
+
+export function CombatLog({ events, battleState }: CombatLogProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+  const lines = events
+    .map(event => describeEvent(event, battleState))
+    .filter((line): line is string => line !== undefined);
+
+  // Keep the newest entries in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [lines.length]);
+
+  return (
+    <div
+      style={{
+        height: '64px',
+        overflowY: 'auto',
+        padding: '6px 8px',
+        marginTop: '6px',
+        backgroundColor: '#1f2937',
+        borderRadius: '6px',
+        fontSize: '11px',
+        color: '#d1d5db',
+      }}
+    >
+      {lines.map((line, i) => (
+        <div key={i}>{line}</div>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { DamageBreakdown } from '../../engine/damage';
+
+interface DamagePreviewProps {
+  hits: DamageBreakdown[];
+}
+
+// The HP a card would take from a Pokemon, with each hit's modifiers itemized
+export function DamagePreview({ hits }: DamagePreviewProps) {
+  const total = hits.reduce((sum, hit) => sum + hit.hpLost, 0);
+
+  return (
+    <div
+      style={{
+        marginBottom: '4px',
+        padding: '4px',
+        backgroundColor: '#450a0a',
+        border: '1px solid #f87171',
+        borderRadius: '4px',
+        fontSize: '9px',
+        color: '#fecaca',
+      }}
+    >
+      <div style={{ fontSize: '12px', fontWeight: 'bold', color: '#f87171', textAlign: 'center' }}>
+        -{total} HP
+      </div>
+      {hits.map((hit, index) => (
+        <div key={index} style={{ marginTop: '2px' }}>
+          {hits.length > 1 && <div style={{ color: '#9ca3af' }}>Hit {index + 1}</div>}
+          {hit.steps.map((step, stepIndex) => (
+            <div key={stepIndex} style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span>{step.label}</span>
+              <span>{stepIndex === 0 ? step.total : `${step.change > 0 ? '+' : ''}${step.change}`}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react';
+import type { PokemonCombatState } from '../../engine/types';
+import type { FormationRow } from '../../config/pokemon';
+
+interface FormationDisplayProps {
+  pokemon: PokemonCombatState[];
+  isEnemy?: boolean;
+  renderPokemon: (pokemon: PokemonCombatState) => ReactNode;
+}
+
+// One side's front and back rows, with the front rows facing each other
+export function FormationDisplay({ pokemon, isEnemy = false, renderPokemon }: FormationDisplayProps) {
+  const rows: FormationRow[] = isEnemy ? ['front', 'back'] : ['back', 'front'];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'row', gap: '12px', flexShrink: 0 }}>
+      {rows.map(row => {
+        const inRow = pokemon.filter(p => (p.row === 'front') === (row === 'front'));
+        if (inRow.length === 0) return null;
+        return (
+          <div key={row} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <div style={{ fontSize: '10px', color: '#9ca3af', textTransform: 'uppercase', textAlign: 'center' }}>
+              {row === 'front' ? 'Front' : 'Back'}
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'row', gap: '12px' }}>
+              {inRow.map(renderPokemon)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import type { PokemonCombatState } from '../../engine/types';
-import { getCardDefinition } from '../../config/cards';
+import { getCardDefinition, hasKeyword } from '../../config/cards';
 import { CardDisplay } from './CardDisplay';
 
 interface HandDisplayProps {
@@ -26,7 +26,7 @@ export function HandDisplay({ pokemon, selectedCardIndex, onCardClick }: HandDis
         const card = getCardDefinition(cardId);
         if (!card) return null;
         
-        const canAfford = pokemon.currentMana >= card.cost;
+        const canAfford = pokemon.currentMana >= card.cost && !hasKeyword(cardId, 'unplayable');
         return (
           <CardDisplay
             key={`${cardId}-${index}`}
@@ -1,4 +1,7 @@
 import type { CampaignNode } from '../../config/campaign';
+import { getEncounter } from '../../config/encounters';
+import { getPokemonStats } from '../../config/pokemon';
+import { TypeBadge } from './TypeBadge';
 
 interface MapNodeProps {
   node: CampaignNode;
@@ -26,11 +29,19 @@ export function MapNode({ node, isCurrent, isAvailable, isCompleted, onClick }:
         return '✨';
       case 'event':
         return '📋';
+      case 'smith':
+        return '🔧';
+      case 'purge':
+        return '🗑️';
       default:
         return '•';
     }
   };
 
+  // Show what types a fight is against, so the party can pick matchups
+  const encounter = node.encounterId ? getEncounter(node.encounterId) : undefined;
+  const enemyTypes = [...new Set(encounter?.enemies.flatMap(e => getPokemonStats(e.pokemonId).types) ?? [])];
+
   return (
     <div
       style={{
@@ -48,6 +59,11 @@ export function MapNode({ node, isCurrent, isAvailable, isCompleted, onClick }:
     >
       <div style={{ fontSize: '24px', marginBottom: '4px' }}>{getNodeIcon()}</div>
       <div style={{ fontWeight: 'bold', fontSize: '12px' }}>{node.name}</div>
+      {enemyTypes.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px', justifyContent: 'center', marginTop: '4px' }}>
+          {enemyTypes.map(type => <TypeBadge key={type} type={type} size="small" />)}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,18 +1,32 @@
 import type { PokemonCombatState } from '../../engine/types';
+import type { IntentSummary } from '../../engine/intents';
+import type { DamageBreakdown } from '../../engine/damage';
 import { getPokemonStats } from '../../config/pokemon';
-import { HealthBar } from './HealthBar';
-import { ManaBar } from './ManaBar';
 import { StatusIcon } from './StatusIcon';
+import { TypeBadge } from './TypeBadge';
+import { DamagePreview } from './DamagePreview';
 
 interface PokemonDisplayProps {
   pokemon: PokemonCombatState;
   isEnemy?: boolean;
   isCurrentTurn?: boolean;
   isSelected?: boolean;
+  intent?: IntentSummary; // What an enemy will do on its next turn
+  damagePreview?: DamageBreakdown[]; // Hits the selected card would land on this Pokemon
   onClick?: () => void;
+  onHover?: (hovering: boolean) => void;
 }
 
-export function PokemonDisplay({ pokemon, isEnemy = false, isCurrentTurn = false, isSelected = false, onClick }: PokemonDisplayProps) {
+export function PokemonDisplay({
+  pokemon,
+  isEnemy = false,
+  isCurrentTurn = false,
+  isSelected = false,
+  intent,
+  damagePreview,
+  onClick,
+  onHover,
+}: PokemonDisplayProps) {
   const stats = getPokemonStats(pokemon.pokemonId);
   const spriteUrl = isEnemy
     ? `https://img.pokemondb.net/sprites/black-white/anim/normal/${pokemon.pokemonId}.gif`
@@ -40,7 +54,24 @@ export function PokemonDisplay({ pokemon, isEnemy = false, isCurrentTurn = false
         flexShrink: 0,
       }}
       onClick={onClick}
+      onMouseEnter={onHover && (() => onHover(true))}
+      onMouseLeave={onHover && (() => onHover(false))}
     >
+      {/* Intent - what the enemy has committed to doing next */}
+      {intent && pokemon.currentHp > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px', justifyContent: 'center', marginBottom: '4px' }}>
+          {intent.damage > 0 && <IntentBadge color="#f87171" label={`⚔️ ${intent.damage}`} title={`Attack for ${intent.damage}`} />}
+          {intent.block > 0 && <IntentBadge color="#60a5fa" label={`🛡️ ${intent.block}`} title={`Block ${intent.block}`} />}
+          {intent.debuff && <IntentBadge color="#c084fc" label="☠️" title="Debuff" />}
+          {intent.buff && <IntentBadge color="#4ade80" label="⬆️" title="Buff" />}
+          {intent.damage === 0 && intent.block === 0 && !intent.debuff && !intent.buff && (
+            <IntentBadge color="#9ca3af" label="…" title="No action" />
+          )}
+        </div>
+      )}
+
+      {damagePreview && damagePreview.length > 0 && <DamagePreview hits={damagePreview} />}
+
       <div style={{ textAlign: 'center', marginBottom: '6px' }}>
         <img
           src={spriteUrl}
@@ -56,6 +87,9 @@ export function PokemonDisplay({ pokemon, isEnemy = false, isCurrentTurn = false
           }}
         />
         <div style={{ fontWeight: 'bold', marginTop: '2px', fontSize: '13px' }}>{stats.name}</div>
+        <div style={{ display: 'flex', gap: '2px', justifyContent: 'center', marginTop: '1px' }}>
+          {stats.types.map(type => <TypeBadge key={type} type={type} size="small" />)}
+        </div>
         {pokemon.playerId && (
           <div style={{ fontSize: '9px', color: '#9ca3af' }}>P{pokemon.playerId}</div>
         )}
@@ -159,3 +193,21 @@ export function PokemonDisplay({ pokemon, isEnemy = false, isCurrentTurn = false
     </div>
   );
 }
+
+function IntentBadge({ color, label, title }: { color: string; label: string; title: string }) {
+  return (
+    <div
+      title={title}
+      style={{
+        fontSize: '10px',
+        fontWeight: 'bold',
+        color,
+        border: `1px solid ${color}`,
+        padding: '1px 4px',
+        borderRadius: '3px',
+      }}
+    >
+      {label}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { PLAYBACK_SPEEDS } from '../hooks/useBattlePlayback';
+
+interface ReplayControlsProps {
+  step: number;
+  stepCount: number;
+  playing: boolean;
+  speed: number;
+  onStep: (step: number) => void;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onCopyRecording: () => void;
+  onExit: () => void;
+}
+
+const buttonStyle = {
+  padding: '8px 14px',
+  fontSize: '13px',
+  fontWeight: 'bold',
+  backgroundColor: '#374151',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+export function ReplayControls({
+  step,
+  stepCount,
+  playing,
+  speed,
+  onStep,
+  onTogglePlaying,
+  onSpeedChange,
+  onCopyRecording,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div
+      style={{
+        flex: '0 0 auto',
+        padding: '16px',
+        backgroundColor: '#1e293b',
+        borderTop: '2px solid #374151',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        flexWrap: 'wrap',
+      }}
+    >
+      <div style={{ fontSize: '16px', fontWeight: 'bold', marginRight: '8px' }}>Replay</div>
+      <button onClick={() => onStep(0)} disabled={step === 0} style={buttonStyle}>⏮</button>
+      <button onClick={() => onStep(step - 1)} disabled={step === 0} style={buttonStyle}>◀ Step</button>
+      <button onClick={onTogglePlaying} style={{ ...buttonStyle, backgroundColor: '#3b82f6', minWidth: '80px' }}>
+        {playing ? 'Pause' : 'Play'}
+      </button>
+      <button onClick={() => onStep(step + 1)} disabled={step === stepCount} style={buttonStyle}>Step ▶</button>
+      <button onClick={() => onStep(stepCount)} disabled={step === stepCount} style={buttonStyle}>⏭</button>
+
+      <div style={{ display: 'flex', gap: '4px', marginLeft: '8px' }}>
+        {PLAYBACK_SPEEDS.map(option => (
+          <button
+            key={option}
+            onClick={() => onSpeedChange(option)}
+            style={{ ...buttonStyle, padding: '8px 10px', backgroundColor: option === speed ? '#fbbf24' : '#374151' }}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+
+      <div style={{ fontSize: '12px', color: '#9ca3af', marginLeft: '8px' }}>
+        Action {step} / {stepCount}
+      </div>
+
+      <div style={{ flex: 1 }} />
+      <button onClick={onCopyRecording} style={buttonStyle}>Copy Recording</button>
+      <button onClick={onExit} style={{ ...buttonStyle, backgroundColor: '#ef4444' }}>Back to Battle</button>
+    </div>
+  );
+}
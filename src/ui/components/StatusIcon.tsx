@@ -1,29 +1,18 @@
 import type { StatusType, BuffType } from '../../config/cards';
+import { STATUS_DEFINITIONS, BUFF_DEFINITIONS } from '../../config/statuses';
 
 interface StatusIconProps {
   type: StatusType | BuffType;
   stacks: number;
 }
 
-const statusColors: Record<StatusType | BuffType, string> = {
-  poison: '#a855f7',
-  burn: '#f97316',
-  freeze: '#06b6d4',
-  paralyze: '#eab308',
-  attackUp: '#22c55e',
-};
-
-const statusNames: Record<StatusType | BuffType, string> = {
-  poison: 'Poison',
-  burn: 'Burn',
-  freeze: 'Freeze',
-  paralyze: 'Paralyze',
-  attackUp: 'Atk+',
-};
+const effectDefinitions = { ...STATUS_DEFINITIONS, ...BUFF_DEFINITIONS };
 
 export function StatusIcon({ type, stacks }: StatusIconProps) {
   if (stacks <= 0) return null;
 
+  const definition = effectDefinitions[type];
+
   return (
     <div
       style={{
@@ -31,16 +20,16 @@ export function StatusIcon({ type, stacks }: StatusIconProps) {
         alignItems: 'center',
         gap: '4px',
         padding: '2px 6px',
-        backgroundColor: statusColors[type],
+        backgroundColor: definition.color,
         borderRadius: '4px',
         fontSize: '11px',
         fontWeight: 'bold',
         color: 'white',
         margin: '2px',
       }}
-      title={`${statusNames[type]} x${stacks}`}
+      title={`${definition.name} x${stacks}: ${definition.description}`}
     >
-      <span>{statusNames[type]}</span>
+      <span>{definition.name}</span>
       <span style={{ backgroundColor: 'rgba(0,0,0,0.2)', padding: '0 4px', borderRadius: '2px' }}>
         {stacks}
       </span>
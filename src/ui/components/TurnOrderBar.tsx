@@ -1,5 +1,6 @@
 import type { PokemonCombatState } from '../../engine/types';
 import { getPokemonStats } from '../../config/pokemon';
+import { getEffectiveSpeed } from '../../engine/status';
 
 interface TurnOrderBarProps {
   turnOrder: PokemonCombatState[];
@@ -25,7 +26,7 @@ export function TurnOrderBar({ turnOrder, currentTurnIndex }: TurnOrderBarProps)
         
         return (
           <div
-            key={`${pokemon.pokemonId}-${index}`}
+            key={pokemon.instanceId}
             style={{
               padding: '6px 10px',
               backgroundColor: isCurrent ? '#fbbf24' : isDead ? '#6b7280' : '#374151',
@@ -41,7 +42,7 @@ export function TurnOrderBar({ turnOrder, currentTurnIndex }: TurnOrderBarProps)
               {pokemon.playerId ? `P${pokemon.playerId}` : 'Enemy'}
             </div>
             <div style={{ fontSize: '8px', color: '#9ca3af', marginTop: '1px' }}>
-              Spd: {pokemon.speed}
+              Spd: {getEffectiveSpeed(pokemon)}
             </div>
             {isCurrent && <div style={{ fontSize: '9px', marginTop: '2px' }}>→</div>}
           </div>
@@ -0,0 +1,27 @@
+import type { PokemonType } from '../../config/pokemonTypes';
+import { TYPE_COLORS } from '../../config/pokemonTypes';
+
+interface TypeBadgeProps {
+  type: PokemonType;
+  size?: 'small' | 'normal';
+}
+
+export function TypeBadge({ type, size = 'normal' }: TypeBadgeProps) {
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        padding: size === 'small' ? '0 4px' : '1px 6px',
+        backgroundColor: TYPE_COLORS[type],
+        borderRadius: '3px',
+        fontSize: size === 'small' ? '8px' : '11px',
+        fontWeight: 'bold',
+        color: 'white',
+        textTransform: 'uppercase',
+        textShadow: '0 1px 1px rgba(0,0,0,0.4)',
+      }}
+    >
+      {type}
+    </span>
+  );
+}
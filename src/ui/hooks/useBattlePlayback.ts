@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { BattleEvent, BattleRecording, BattleState } from '../../engine/types';
+import { replayBattleSteps } from '../../engine/replay';
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+const STEP_DELAY_MS = 1000; // Time per action at 1x speed
+
+interface Playback {
+  steps: Array<{ state: BattleState; events: BattleEvent[] }>;
+  step: number; // Number of recorded actions applied
+  playing: boolean;
+  speed: number;
+}
+
+// Step through a recorded battle. Starting playback re-runs the recording from its seed,
+// so the replay shows exactly what the engine reproduces, not what was on screen.
+export function useBattlePlayback(recording?: BattleRecording) {
+  const [playback, setPlayback] = useState<Playback | undefined>();
+
+  const start = useCallback(() => {
+    if (!recording) return;
+    setPlayback({ steps: replayBattleSteps(recording), step: 0, playing: false, speed: 1 });
+  }, [recording]);
+
+  const exit = useCallback(() => setPlayback(undefined), []);
+
+  const goToStep = useCallback((step: number) => {
+    setPlayback(prev => prev && {
+      ...prev,
+      step: Math.max(0, Math.min(prev.steps.length - 1, step)),
+      playing: false,
+    });
+  }, []);
+
+  const togglePlaying = useCallback(() => {
+    setPlayback(prev => {
+      if (!prev) return prev;
+      // Playing from the end starts over
+      const atEnd = prev.step >= prev.steps.length - 1;
+      return { ...prev, playing: !prev.playing, step: !prev.playing && atEnd ? 0 : prev.step };
+    });
+  }, []);
+
+  const setSpeed = useCallback((speed: number) => {
+    setPlayback(prev => prev && { ...prev, speed });
+  }, []);
+
+  // Advance while playing, stopping at the last step
+  useEffect(() => {
+    if (!playback?.playing) return;
+    const timer = setTimeout(() => {
+      setPlayback(prev => {
+        if (!prev) return prev;
+        const step = prev.step + 1;
+        return { ...prev, step: Math.min(step, prev.steps.length - 1), playing: step < prev.steps.length - 1 };
+      });
+    }, STEP_DELAY_MS / playback.speed);
+    return () => clearTimeout(timer);
+  }, [playback?.playing, playback?.step, playback?.speed]);
+
+  return {
+    isActive: playback !== undefined,
+    state: playback?.steps[playback.step].state,
+    // Events up to the current step, for the combat log
+    events: playback ? playback.steps.slice(1, playback.step + 1).flatMap(s => s.events) : [],
+    step: playback?.step ?? 0,
+    stepCount: playback ? playback.steps.length - 1 : 0,
+    playing: playback?.playing ?? false,
+    speed: playback?.speed ?? 1,
+    start,
+    exit,
+    goToStep,
+    togglePlaying,
+    setSpeed,
+  };
+}
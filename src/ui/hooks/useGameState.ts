@@ -1,18 +1,28 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { GameState, Action, BattleState, CampaignState } from '../../engine/types';
-import { createCampaignState, getCurrentEncounter, checkEvolutionCheckpoint, applyEvolutions, progressToNode } from '../../engine/campaign';
-import { createBattleState, processTurn } from '../../engine/battle';
-import { chooseEnemyAction } from '../../engine/ai';
+import type { GameState, Action, BattleState, CampaignState, PartyMember } from '../../engine/types';
+import { createCampaignState, createPartyBonuses, checkEvolutionCheckpoint, applyEvolutions, progressToNode, createCardRewards, addCardToDeck, recordBattleResult, getEncounterDifficulty, upgradeCard, removeCard, resolveEventChoice, STARTING_CURRENCY } from '../../engine/campaign';
+import { createBattleState, resolveTurn } from '../../engine/battle';
+import { createBattleRecording, recordAction } from '../../engine/replay';
+import { pushUndo, popUndo } from '../../engine/undo';
+import { validateAction } from '../../engine/actions';
 import { getEncounter } from '../../config/encounters';
-import { getNode } from '../../config/campaign';
+import { CAMPAIGN_MAP, getNode } from '../../config/campaign';
+import { generateCampaignMap } from '../../engine/mapGenerator';
+import { createRng } from '../../engine/random';
+import { getStarterDeck } from '../../config/cards';
+import { getPokemonStats } from '../../config/pokemon';
 import type { PokemonId } from '../../config/pokemon';
+import { DEFAULT_DIFFICULTY } from '../../config/difficulty';
+import type { Difficulty } from '../../config/difficulty';
 
 const STORAGE_KEY = 'pokespire_game_state';
+const BATTLE_LOG_LENGTH = 50; // Most recent battle events kept for the combat log
 
 // Helper to serialize/deserialize game state (handles Sets)
 function serializeGameState(state: GameState): string {
   const serializable = {
     ...state,
+    undoStack: undefined,
     campaign: state.campaign ? {
       ...state.campaign,
       completedNodes: Array.from(state.campaign.completedNodes),
@@ -33,10 +43,22 @@ function deserializeGameState(json: string): GameState | null {
       campaign: parsed.campaign ? {
         ...parsed.campaign,
         completedNodes: new Set(parsed.campaign.completedNodes || []),
+        currency: parsed.campaign.currency ?? STARTING_CURRENCY,
+        map: parsed.campaign.map ?? CAMPAIGN_MAP,
+        rng: parsed.campaign.rng ?? createRng(Date.now()),
+        difficulty: parsed.campaign.difficulty ?? DEFAULT_DIFFICULTY,
+        // Saves from before party state was persisted start fresh
+        party: parsed.campaign.party.map((p: PartyMember) => ({
+          ...p,
+          currentHp: p.currentHp ?? getPokemonStats(p.pokemonId).maxHp,
+          deck: p.deck || getStarterDeck(p.pokemonId),
+          bonuses: p.bonuses || createPartyBonuses(),
+        })),
       } : undefined,
       battle: parsed.battle ? {
         ...parsed.battle,
         roundActed: new Set(parsed.battle.roundActed || []),
+        rng: parsed.battle.rng ?? createRng(Date.now()),
       } : undefined,
     };
   } catch {
@@ -54,6 +76,56 @@ function saveGameState(state: GameState): void {
   localStorage.setItem(STORAGE_KEY, serializeGameState(state));
 }
 
+// Party members enter battle with their persisted HP, deck and bonuses
+function startBattle(state: GameState, campaign: CampaignState, encounterId: string): GameState {
+  const encounter = getEncounter(encounterId);
+  if (!encounter) return state;
+
+  const enemies = encounter.enemies.map(e => ({ pokemonId: e.pokemonId }));
+  const difficulty = getEncounterDifficulty(campaign, encounterId);
+  return {
+    ...state,
+    screen: 'combat',
+    campaign,
+    battle: createBattleState(campaign.party, enemies, campaign.rng, difficulty),
+    battleLog: [],
+    undoStack: [],
+    battleRecording: createBattleRecording(campaign.party, enemies, campaign.rng, difficulty),
+  };
+}
+
+// After a victory: record the party's state, apply any evolutions, then offer card rewards
+// (none after the final boss)
+function resolveVictory(state: GameState, battleState: BattleState): GameState {
+  if (!state.campaign) {
+    return {
+      ...state,
+      screen: 'victory',
+      lastBattleResult: 'victory',
+    };
+  }
+
+  const recordedCampaign = recordBattleResult(state.campaign, battleState);
+  const currentNode = getNode(recordedCampaign.currentNodeId, recordedCampaign.map);
+  const evolutions = currentNode ? checkEvolutionCheckpoint(recordedCampaign, currentNode.id) : [];
+  const campaign = evolutions.length > 0 ? applyEvolutions(recordedCampaign, evolutions) : recordedCampaign;
+  // The final boss is the one with nowhere left to go
+  const isFinalVictory = currentNode?.type === 'boss' && currentNode.nextNodes.length === 0;
+  const { rewards: cardRewards, campaign: rewardedCampaign } = isFinalVictory
+    ? { rewards: [], campaign }
+    : createCardRewards(campaign);
+
+  return {
+    ...state,
+    screen: cardRewards.length > 0 ? 'reward' : 'victory',
+    lastBattleResult: 'victory',
+    campaign: rewardedCampaign,
+    evolutions: evolutions.length > 0 ? evolutions : undefined,
+    isFinalVictory,
+    cardRewards,
+  };
+}
+
 export function useGameState() {
   const [gameState, setGameState] = useState<GameState>(() => {
     const loaded = loadGameState();
@@ -67,8 +139,13 @@ export function useGameState() {
     }
   }, [gameState]);
 
-  const handleStartCampaign = useCallback((players: Array<{ id: string; name: string; pokemonId: PokemonId }>) => {
-    const campaignState = createCampaignState(players);
+  const handleStartCampaign = useCallback((
+    players: Array<{ id: string; name: string; pokemonId: PokemonId }>,
+    difficulty: Difficulty = DEFAULT_DIFFICULTY
+  ) => {
+    // One seed drives both the map layout and every later random choice in the run
+    const seed = Date.now();
+    const campaignState = createCampaignState(players, generateCampaignMap(seed), seed, difficulty);
     setGameState({
       screen: 'map',
       campaign: campaignState,
@@ -80,7 +157,7 @@ export function useGameState() {
     setGameState(prev => {
       if (!prev.campaign) return prev;
 
-      const node = getNode(nodeId);
+      const node = getNode(nodeId, prev.campaign.map);
       if (!node) return prev;
 
       // Check if it's a battle node
@@ -88,24 +165,7 @@ export function useGameState() {
         const encounterId = node.encounterId;
         if (!encounterId) return prev;
 
-        const encounter = getEncounter(encounterId);
-        if (!encounter) return prev;
-
-        // Create battle state
-        const party = prev.campaign.party.map(p => ({
-          pokemonId: p.pokemonId,
-          playerId: p.playerId,
-          playerName: p.playerName,
-        }));
-
-        const enemies = encounter.enemies.map(e => ({ pokemonId: e.pokemonId }));
-        const battleState = createBattleState(party, enemies);
-
-        return {
-          ...prev,
-          screen: 'combat',
-          battle: battleState,
-        };
+        return startBattle(prev, progressToNode(prev.campaign, nodeId), encounterId);
       }
 
       // For evolution nodes, just progress
@@ -121,90 +181,90 @@ export function useGameState() {
         };
       }
 
-      // For event nodes, just progress
+      // Deck services open a screen to pick the card
+      if (node.type === 'smith' || node.type === 'purge') {
+        return {
+          ...prev,
+          screen: node.type,
+          campaign: progressToNode(prev.campaign, nodeId),
+        };
+      }
+
+      // Scripted events open the event screen; other event nodes just progress
       const updatedCampaign = progressToNode(prev.campaign, nodeId);
       return {
         ...prev,
+        screen: node.eventId ? 'event' : prev.screen,
         campaign: updatedCampaign,
       };
     });
   }, []);
 
+  const handleEventChoice = useCallback((choiceIndex: number) => {
+    setGameState(prev => {
+      if (!prev.campaign || prev.screen !== 'event') return prev;
+
+      const eventId = getNode(prev.campaign.currentNodeId, prev.campaign.map)?.eventId;
+      if (!eventId) return prev;
+
+      const { campaign, encounterId } = resolveEventChoice(prev.campaign, eventId, choiceIndex);
+      if (encounterId) {
+        return startBattle(prev, campaign, encounterId);
+      }
+
+      return {
+        ...prev,
+        screen: 'map',
+        campaign,
+      };
+    });
+  }, []);
+
   const handleBattleAction = useCallback((action: Action) => {
     setGameState(prev => {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:78',message:'handleBattleAction called',data:{actionType:action.type,hasBattle:!!prev.battle},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'B'})}).catch(()=>{});
-      // #endregion
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:81',message:'handleBattleAction - before processTurn',data:{hasBattle:!!prev.battle,battleResult:prev.battle?.result},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'B'})}).catch(()=>{});
-      // #endregion
       if (!prev.battle) {
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:84',message:'ERROR: No battle state in handleBattleAction',data:{},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
         return prev;
       }
 
       try {
-        let newBattleState = processTurn(prev.battle, action);
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:88',message:'handleBattleAction - after processTurn',data:{newResult:newBattleState.result,hasPlayerParty:newBattleState.playerParty.length>0,hasEnemies:newBattleState.enemies.length>0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-        // #endregion
+        // Rejected actions change nothing, so they stay out of the recording
+        if (!validateAction(prev.battle, action).valid) {
+          return prev;
+        }
+
+        const { state: newBattleState, events } = resolveTurn(prev.battle, action);
+        const battleRecording = prev.battleRecording && recordAction(prev.battleRecording, action);
 
         // If battle ended, handle it
         if (newBattleState.result === 'victory' || newBattleState.result === 'defeat') {
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:93',message:'Battle ended',data:{result:newBattleState.result,hasCampaign:!!prev.campaign},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-        // #endregion
-        if (newBattleState.result === 'victory' && prev.campaign) {
-          // Check if we're at an evolution checkpoint
-          const currentNode = getNode(prev.campaign.currentNodeId);
-          const evolutions = currentNode ? checkEvolutionCheckpoint(prev.campaign, currentNode.id) : [];
-          
-          if (evolutions.length > 0) {
-            // Apply evolutions
-            const newCampaign = applyEvolutions(prev.campaign, evolutions);
+          if (newBattleState.result === 'victory') {
+            return resolveVictory({ ...prev, battleRecording, undoStack: undefined }, newBattleState);
+          } else {
             return {
               ...prev,
-              screen: 'victory',
+              battleRecording,
+              undoStack: undefined,
+              screen: 'defeat',
               lastBattleResult: newBattleState.result,
-              evolutions,
-              campaign: newCampaign,
             };
           }
-
-          // Check if it's the final boss (Mewtwo)
-          const isFinalVictory = currentNode?.encounterId === 'mewtwo';
-          
-          return {
-            ...prev,
-            screen: 'victory',
-            lastBattleResult: newBattleState.result,
-            isFinalVictory,
-          };
-        } else {
-          return {
-            ...prev,
-            screen: 'defeat',
-            lastBattleResult: newBattleState.result,
-          };
         }
-      }
 
-        const newState = {
+        return {
           ...prev,
           battle: newBattleState,
+          battleRecording,
+          battleLog: [...(prev.battleLog ?? []), ...events].slice(-BATTLE_LOG_LENGTH),
+          undoStack: pushUndo(
+            prev.undoStack ?? [],
+            { battle: prev.battle, recordedActions: prev.battleRecording?.actions.length ?? 0, battleLog: prev.battleLog ?? [] },
+            action,
+            newBattleState
+          ),
         };
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:125',message:'handleBattleAction - returning ongoing state',data:{screen:newState.screen,hasBattle:!!newState.battle,battleResult:newState.battle?.result},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        return newState;
       } catch (error) {
         // Log error and return state with error flag
         console.error('Error processing battle action:', error);
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'useGameState.ts:202',message:'ERROR in handleBattleAction',data:{error:error instanceof Error ? error.message : String(error),actionType:action.type},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
-        // #endregion
         // Return previous state unchanged, but with error flag
         return {
           ...prev,
@@ -214,6 +274,26 @@ export function useGameState() {
     });
   }, []);
 
+  // Take back the active player's last card play
+  const handleUndo = useCallback(() => {
+    setGameState(prev => {
+      const { entry, stack } = popUndo(prev.undoStack ?? []);
+      if (!entry) return prev;
+
+      // Put the recording and the log back as they were before the undone play
+      return {
+        ...prev,
+        battle: entry.battle,
+        battleRecording: prev.battleRecording && {
+          ...prev.battleRecording,
+          actions: prev.battleRecording.actions.slice(0, entry.recordedActions),
+        },
+        battleLog: entry.battleLog,
+        undoStack: stack,
+      };
+    });
+  }, []);
+
   const handleBattleEnd = useCallback((result: 'victory' | 'defeat') => {
     setGameState(prev => {
       if (result === 'defeat') {
@@ -224,37 +304,50 @@ export function useGameState() {
         };
       }
 
-      // Victory - check for evolutions
-      if (prev.campaign) {
-        const currentNode = getNode(prev.campaign.currentNodeId);
-        const evolutions = currentNode ? checkEvolutionCheckpoint(prev.campaign, currentNode.id) : [];
-        
-        if (evolutions.length > 0) {
-          const newCampaign = applyEvolutions(prev.campaign, evolutions);
-          return {
-            ...prev,
-            screen: 'victory',
-            lastBattleResult: result,
-            evolutions,
-            campaign: newCampaign,
-          };
-        }
+      if (!prev.battle) return prev;
+      return resolveVictory(prev, prev.battle);
+    });
+  }, []);
 
-        // Check if final victory
-        const isFinalVictory = currentNode?.encounterId === 'mewtwo';
-        
-        return {
-          ...prev,
-          screen: 'victory',
-          lastBattleResult: result,
-          isFinalVictory,
-        };
-      }
+  const handleChooseCardRewards = useCallback((choices: Array<string | undefined>) => {
+    setGameState(prev => {
+      if (!prev.campaign || !prev.cardRewards) return prev;
+
+      // choices[i] is the card picked for cardRewards[i], or undefined if skipped
+      let campaign = prev.campaign;
+      prev.cardRewards.forEach((reward, i) => {
+        const cardId = choices[i];
+        if (cardId && reward.options.includes(cardId)) {
+          campaign = addCardToDeck(campaign, reward.partyIndex, cardId);
+        }
+      });
 
       return {
         ...prev,
         screen: 'victory',
-        lastBattleResult: result,
+        campaign,
+        cardRewards: undefined,
+      };
+    });
+  }, []);
+
+  // choices[partyIndex] is the deck index of the card to upgrade or remove, or undefined to skip
+  const handleDeckService = useCallback((choices: Array<number | undefined>) => {
+    setGameState(prev => {
+      if (!prev.campaign || (prev.screen !== 'smith' && prev.screen !== 'purge')) return prev;
+
+      const service = prev.screen === 'smith' ? upgradeCard : removeCard;
+      let campaign = prev.campaign;
+      choices.forEach((deckIndex, partyIndex) => {
+        if (deckIndex !== undefined) {
+          campaign = service(campaign, partyIndex, deckIndex);
+        }
+      });
+
+      return {
+        ...prev,
+        screen: 'map',
+        campaign,
       };
     });
   }, []);
@@ -272,6 +365,8 @@ export function useGameState() {
         ...prev,
         screen: 'map',
         battle: undefined,
+        battleLog: undefined,
+        undoStack: undefined,
         evolutions: undefined,
       };
     });
@@ -290,10 +385,21 @@ export function useGameState() {
     });
   }, []);
 
+  const handleToggleAutopilot = useCallback((playerId: string) => {
+    setGameState(prev => {
+      const autopilotPlayerIds = prev.autopilotPlayerIds ?? [];
+      return {
+        ...prev,
+        autopilotPlayerIds: autopilotPlayerIds.includes(playerId)
+          ? autopilotPlayerIds.filter(id => id !== playerId)
+          : [...autopilotPlayerIds, playerId],
+      };
+    });
+  }, []);
+
   const handleClearError = useCallback(() => {
     setGameState(prev => {
-      const { error, ...rest } = prev;
-      return rest;
+      return { ...prev, error: undefined };
     });
   }, []);
 
@@ -302,8 +408,13 @@ export function useGameState() {
     handleClearError,
     handleStartCampaign,
     handleNodeClick,
+    handleEventChoice,
     handleBattleAction,
+    handleUndo,
+    handleToggleAutopilot,
     handleBattleEnd,
+    handleChooseCardRewards,
+    handleDeckService,
     handleContinueFromVictory,
     handleReturnToMenu,
     handleResetGame,
@@ -1,40 +1,67 @@
-import { useState, useEffect, useRef } from 'react';
-import type { BattleState, Action } from '../../engine/types';
-import { chooseEnemyAction } from '../../engine/ai';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { BattleState, BattleEvent, BattleRecording, Action } from '../../engine/types';
+import { choosePlayerAction } from '../../engine/ai';
+import { getIntentActions, getIntentSummary } from '../../engine/intents';
 import { PokemonDisplay } from '../components/PokemonDisplay';
+import { FormationDisplay } from '../components/FormationDisplay';
 import { HandDisplay } from '../components/HandDisplay';
 import { TurnOrderBar } from '../components/TurnOrderBar';
+import { CombatLog } from '../components/CombatLog';
+import { ReplayControls } from '../components/ReplayControls';
+import { useBattlePlayback } from '../hooks/useBattlePlayback';
 import { getCardDefinition } from '../../config/cards';
-import { getCardTargets } from '../../engine/cards';
+import { getTargetingEffect, getValidTargets, previewCardDamage } from '../../engine/cards';
+import { getLegalActions, validateAction } from '../../engine/actions';
 import { getPokemonStats } from '../../config/pokemon';
 
 interface CombatScreenProps {
   battleState: BattleState;
+  battleLog?: BattleEvent[];
+  recording?: BattleRecording;
+  autopilotPlayerIds?: string[];
+  onToggleAutopilot?: (playerId: string) => void;
   onAction: (action: Action) => void;
+  canUndo?: boolean;
+  onUndo?: () => void;
   onBattleEnd: (result: 'victory' | 'defeat') => void;
   onResetGame?: () => void;
 }
 
-export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }: CombatScreenProps) {
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:16',message:'CombatScreen render',data:{result:battleState.result,turnIndex:battleState.currentTurnIndex,turnOrderLength:battleState.turnOrder.length,playerPartyLength:battleState.playerParty.length,enemiesLength:battleState.enemies.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-  // #endregion
+export function CombatScreen({
+  battleState: liveBattleState,
+  battleLog = [],
+  recording,
+  autopilotPlayerIds = [],
+  onToggleAutopilot,
+  onAction,
+  canUndo = false,
+  onUndo,
+  onBattleEnd,
+  onResetGame,
+}: CombatScreenProps) {
+  // In playback mode the screen shows the replayed battle instead of the live one
+  const playback = useBattlePlayback(recording);
+  const battleState = playback.state ?? liveBattleState;
+  const isPlayback = playback.isActive;
   const [selectedCardIndex, setSelectedCardIndex] = useState<number | undefined>();
   const [selectedTargetIds, setSelectedTargetIds] = useState<string[]>([]);
+  const [hoveredId, setHoveredId] = useState<string | undefined>();
   const processingEnemyTurnRef = useRef(false);
   const lastProcessedTurnRef = useRef<string>('');
 
   const currentCombatant = battleState.turnOrder[battleState.currentTurnIndex];
-  // #region agent log
-  fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:24',message:'Current combatant check',data:{hasCurrentCombatant:!!currentCombatant,combatantId:currentCombatant?.pokemonId,combatantHp:currentCombatant?.currentHp},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
-  // #endregion
   const isPlayerTurn = currentCombatant?.playerId !== undefined;
-  const turnKey = `${battleState.currentTurnIndex}-${currentCombatant?.pokemonId}`;
+  // Autopilot players' turns are played by the AI, like enemy turns
+  const isAutopilotTurn = isPlayerTurn && autopilotPlayerIds.includes(currentCombatant.playerId!);
+  const isAiTurn = !isPlayerTurn || isAutopilotTurn;
+  // Includes the round, so a lone AI combatant's turn at the same index next round still gets played
+  const turnKey = `${battleState.currentRound}-${battleState.currentTurnIndex}-${currentCombatant?.instanceId}`;
 
-  // Auto-process enemy turns (only once per turn)
+  // Auto-process enemy and autopilot turns (only once per turn)
   useEffect(() => {
     if (
-      !isPlayerTurn &&
+      !isPlayback &&
+      isAiTurn &&
       currentCombatant &&
       battleState.result === 'ongoing' &&
       !processingEnemyTurnRef.current &&
@@ -43,7 +70,9 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
       processingEnemyTurnRef.current = true;
       lastProcessedTurnRef.current = turnKey;
 
-      const actions = chooseEnemyAction(battleState, currentCombatant);
+      const actions = isPlayerTurn
+        ? choosePlayerAction(battleState, currentCombatant)
+        : getIntentActions(battleState, currentCombatant);
       if (actions.length > 0) {
         // Process actions one at a time with delays
         let actionIndex = 0;
@@ -71,101 +100,38 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
         processingEnemyTurnRef.current = false;
       }
     }
-  }, [isPlayerTurn, turnKey, battleState.result, onAction]);
+  }, [isPlayback, isAiTurn, isPlayerTurn, turnKey, battleState, currentCombatant, onAction]);
 
   // Check battle end
   useEffect(() => {
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:69',message:'Battle end check effect',data:{result:battleState.result},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-    // #endregion
-    if (battleState.result === 'victory' || battleState.result === 'defeat') {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:71',message:'Calling onBattleEnd',data:{result:battleState.result},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
-      // #endregion
+    if (!isPlayback && (battleState.result === 'victory' || battleState.result === 'defeat')) {
       onBattleEnd(battleState.result);
     }
-  }, [battleState.result, onBattleEnd]);
+  }, [isPlayback, battleState.result, onBattleEnd]);
+
+  // Whether the current combatant can play a card now, at some target if it needs one
+  const isPlayable = (cardId: string) =>
+    getLegalActions(battleState).some(action => action.type === 'playCard' && action.cardId === cardId);
 
   const handleCardClick = (cardIndex: number) => {
     if (!currentCombatant) return;
     
     const cardId = currentCombatant.hand[cardIndex];
-    if (!cardId) return;
-    
-    const card = getCardDefinition(cardId);
-    if (!card) return;
-
-    if (currentCombatant.currentMana < card.cost) {
-      return; // Can't afford
-    }
+    if (!cardId || !isPlayable(cardId)) return;
 
     setSelectedCardIndex(cardIndex);
-    
-    // Determine if targeting is needed
-    if (card.effect.type === 'damage' || card.effect.type === 'status' || card.effect.type === 'heal') {
-      if (card.effect.target === 'single') {
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:106',message:'Card requires target selection',data:{cardName:card.name,effectType:card.effect.type,target:card.effect.target,side:card.effect.side},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        setSelectedTargetIds([]); // Need to select target
-      } else {
-        setSelectedTargetIds([]); // All targets, no selection needed
-      }
-    } else {
-      setSelectedTargetIds([]); // No targeting needed
-    }
+    setSelectedTargetIds([]); // Single-target cards need a fresh target selection
   };
 
-  const handleTargetClick = (uniqueId: string) => {
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:118',message:'handleTargetClick called',data:{uniqueId,selectedCardIndex,hasCurrentCombatant:!!currentCombatant},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'A'})}).catch(()=>{});
-    // #endregion
+  const handleTargetClick = (instanceId: string) => {
     if (selectedCardIndex === undefined || !currentCombatant) return;
     
     const cardId = currentCombatant.hand[selectedCardIndex];
     if (!cardId) return;
-    
-    const card = getCardDefinition(cardId);
-    if (!card) return;
 
-    // Parse uniqueId to get pokemonId and index
-    const [pokemonId, indexStr] = uniqueId.split('-');
-    const index = parseInt(indexStr, 10);
-    
-    // Find target in the appropriate array based on card effect
-    let target: PokemonCombatState | undefined;
-    if (card.effect.type === 'heal') {
-      // Heal targets allies (player party)
-      target = battleState.playerParty[index];
-    } else if (card.effect.side === 'enemy') {
-      // Look in enemies array
-      target = battleState.enemies[index];
-    } else if (card.effect.side === 'ally') {
-      // Look in player party
-      target = battleState.playerParty[index];
-    }
-    
-    if (!target || target.pokemonId !== pokemonId || target.currentHp <= 0) {
-      // #region agent log
-      fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:137',message:'Invalid target',data:{uniqueId,pokemonId,index,found:!!target,hp:target?.currentHp},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'A'})}).catch(()=>{});
-      // #endregion
-      return;
-    }
-
-    // Determine valid targets based on card
-    if (card.effect.type === 'damage' || card.effect.type === 'status') {
-      if (card.effect.side === 'enemy' && !target.playerId) {
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:145',message:'Target selected - enemy',data:{uniqueId,cardName:card.name},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        setSelectedTargetIds([uniqueId]);
-      } else if (card.effect.side === 'ally' && target.playerId) {
-        setSelectedTargetIds([uniqueId]);
-      }
-    } else if (card.effect.type === 'heal') {
-      if (target.playerId) {
-        setSelectedTargetIds([uniqueId]);
-      }
+    const action: Action = { type: 'playCard', cardId, casterId: currentCombatant.instanceId, targetIds: [instanceId] };
+    if (validateAction(battleState, action).valid) {
+      setSelectedTargetIds([instanceId]);
     }
   };
 
@@ -178,44 +144,60 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
     const card = getCardDefinition(cardId);
     if (!card) return;
 
-    // Determine targets
-    let targetIds: string[] | undefined;
-    const needsTarget = (card.effect.type === 'damage' || card.effect.type === 'status' || card.effect.type === 'heal') 
-      && card.effect.target === 'single';
-    
-    if (needsTarget) {
-      if (selectedTargetIds.length > 0) {
-        // Use the uniqueIds directly - the engine will parse them
-        targetIds = selectedTargetIds;
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:170',message:'Using selected target',data:{selectedTargetIds,targetIds,cardName:card.name},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'B'})}).catch(()=>{});
-        // #endregion
-      } else {
-        // Don't auto-select - require manual target selection
-        // #region agent log
-        fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:175',message:'Target required but not selected',data:{cardName:card.name},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'A'})}).catch(()=>{});
-        // #endregion
-        return; // Require target selection
-      }
-    } else if (card.effect.target === 'all') {
-      // Multi-target cards don't need explicit target selection
-      targetIds = undefined;
+    // Single-target cards require manual target selection
+    if (getTargetingEffect(card) && selectedTargetIds.length === 0) {
+      return;
     }
 
-    // #region agent log
-    fetch('http://127.0.0.1:7244/ingest/052177c7-b559-47bb-b50f-ee17a791e993',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'CombatScreen.tsx:180',message:'Playing card',data:{cardId,cardName:card.name,targetIds,selectedTargetIds,effectType:card.effect.type,effectAmount:card.effect.type==='damage'?card.effect.amount:undefined},timestamp:Date.now(),sessionId:'debug-session',runId:'run2',hypothesisId:'C'})}).catch(()=>{});
-    // #endregion
-    onAction({
+    const action: Action = {
       type: 'playCard',
       cardId: cardId,
-      casterId: currentCombatant.pokemonId,
-      targetIds: targetIds, // Pass uniqueIds (format: "pokemonId-index") for precise targeting
-    });
+      casterId: currentCombatant.instanceId,
+      targetIds: selectedTargetIds.length > 0 ? selectedTargetIds : undefined,
+    };
+    if (!validateAction(battleState, action).valid) {
+      return;
+    }
+    onAction(action);
+
+    setSelectedCardIndex(undefined);
+    setSelectedTargetIds([]);
+  };
 
+  const handleStartPlayback = () => {
     setSelectedCardIndex(undefined);
     setSelectedTargetIds([]);
+    playback.start();
   };
 
+  // Share with bug reports: the recording reproduces the battle exactly
+  const handleCopyRecording = () => {
+    if (recording) {
+      navigator.clipboard?.writeText(JSON.stringify(recording));
+    }
+  };
+
+  const canUndoNow = canUndo && !!onUndo && !isPlayback && isPlayerTurn && !isAutopilotTurn;
+
+  const handleUndo = useCallback(() => {
+    if (!canUndoNow) return;
+    setSelectedCardIndex(undefined);
+    setSelectedTargetIds([]);
+    onUndo?.();
+  }, [canUndoNow, onUndo]);
+
+  // Ctrl+Z / Cmd+Z undoes the last card played this turn
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo]);
+
   const handleEndTurn = () => {
     onAction({ type: 'endTurn' });
     setSelectedCardIndex(undefined);
@@ -228,7 +210,16 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
 
   const selectedCardId = selectedCardIndex !== undefined ? currentCombatant.hand[selectedCardIndex] : undefined;
   const selectedCard = selectedCardId ? getCardDefinition(selectedCardId) : undefined;
-  const canPlaySelectedCard = selectedCard && currentCombatant.currentMana >= selectedCard.cost;
+  const canPlaySelectedCard = selectedCardId !== undefined && isPlayable(selectedCardId);
+  const validTargetIds = selectedCard
+    ? getValidTargets(selectedCard, currentCombatant, battleState).map(p => p.instanceId)
+    : [];
+
+  // Exact damage the selected card would deal to the Pokemon under the cursor, or else its chosen target
+  const previewTargetId = hoveredId ?? selectedTargetIds[0];
+  const canPreview = selectedCard !== undefined && canPlaySelectedCard && previewTargetId !== undefined &&
+    (!getTargetingEffect(selectedCard) || validTargetIds.includes(previewTargetId));
+  const damagePreview = canPreview ? previewCardDamage(selectedCard, currentCombatant, battleState, previewTargetId) : [];
 
   const handleResetClick = () => {
     if (onResetGame && window.confirm('Are you sure you want to reset the game? This will clear all progress.')) {
@@ -278,6 +269,34 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
       {/* Turn Order Bar - Fixed Height */}
       <div style={{ flex: '0 0 auto', padding: '8px 16px', backgroundColor: '#0f172a' }}>
         <TurnOrderBar turnOrder={battleState.turnOrder} currentTurnIndex={battleState.currentTurnIndex} />
+        <CombatLog events={isPlayback ? playback.events : battleLog} battleState={battleState} />
+        {onToggleAutopilot && (
+          <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+            {[...new Set(liveBattleState.playerParty.map(p => p.playerId))].map(playerId => {
+              if (!playerId) return null;
+              const isOn = autopilotPlayerIds.includes(playerId);
+              return (
+                <button
+                  key={playerId}
+                  onClick={() => onToggleAutopilot(playerId)}
+                  title="Let the AI play this player's turns"
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '11px',
+                    fontWeight: 'bold',
+                    backgroundColor: isOn ? '#22c55e' : '#374151',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  P{playerId} Auto: {isOn ? 'On' : 'Off'}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Battlefield Section - Horizontal Row */}
@@ -310,27 +329,25 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
           }}
         >
           {/* Player Party */}
-          {battleState.playerParty.map((pokemon, index) => {
-            const needsTarget = selectedCardIndex !== undefined && currentCombatant && (() => {
-              const cardId = currentCombatant.hand[selectedCardIndex];
-              const card = cardId ? getCardDefinition(cardId) : null;
-              return card && (card.effect.type === 'damage' || card.effect.type === 'status' || card.effect.type === 'heal') 
-                && card.effect.target === 'single' && ((card.effect.side === 'ally' && card.effect.type !== 'heal') || card.effect.type === 'heal');
-            })();
-            // Use unique identifier: pokemonId + index to handle duplicates
-            const uniqueId = `${pokemon.pokemonId}-${index}`;
-            const isSelected = needsTarget && selectedTargetIds.includes(uniqueId);
-            return (
-              <PokemonDisplay
-                key={uniqueId}
-                pokemon={pokemon}
-                isEnemy={false}
-                isCurrentTurn={pokemon.pokemonId === currentCombatant.pokemonId}
-                isSelected={isSelected}
-                onClick={needsTarget ? () => handleTargetClick(uniqueId) : undefined}
-              />
-            );
-          })}
+          <FormationDisplay
+            pokemon={battleState.playerParty}
+            renderPokemon={pokemon => {
+              const needsTarget = validTargetIds.includes(pokemon.instanceId);
+              const isSelected = needsTarget && selectedTargetIds.includes(pokemon.instanceId);
+              return (
+                <PokemonDisplay
+                  key={pokemon.instanceId}
+                  pokemon={pokemon}
+                  isEnemy={false}
+                  isCurrentTurn={pokemon.instanceId === currentCombatant.instanceId}
+                  isSelected={isSelected}
+                  damagePreview={pokemon.instanceId === previewTargetId ? damagePreview : undefined}
+                  onClick={needsTarget ? () => handleTargetClick(pokemon.instanceId) : undefined}
+                  onHover={hovering => setHoveredId(hovering ? pokemon.instanceId : undefined)}
+                />
+              );
+            }}
+          />
           
           {/* Visual Separator */}
           {battleState.playerParty.length > 0 && battleState.enemies.length > 0 && (
@@ -345,32 +362,46 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
           )}
           
           {/* Enemies */}
-          {battleState.enemies.map((pokemon, index) => {
-            const needsTarget = selectedCardIndex !== undefined && currentCombatant && (() => {
-              const cardId = currentCombatant.hand[selectedCardIndex];
-              const card = cardId ? getCardDefinition(cardId) : null;
-              return card && (card.effect.type === 'damage' || card.effect.type === 'status' || card.effect.type === 'heal') 
-                && card.effect.target === 'single' && card.effect.side === 'enemy';
-            })();
-            // Use unique identifier: pokemonId + index to handle duplicates
-            const uniqueId = `${pokemon.pokemonId}-${index}`;
-            const isSelected = needsTarget && selectedTargetIds.includes(uniqueId);
-            return (
-              <PokemonDisplay
-                key={uniqueId}
-                pokemon={pokemon}
-                isEnemy={true}
-                isCurrentTurn={pokemon.pokemonId === currentCombatant.pokemonId}
-                isSelected={isSelected}
-                onClick={needsTarget ? () => handleTargetClick(uniqueId) : undefined}
-              />
-            );
-          })}
+          <FormationDisplay
+            pokemon={battleState.enemies}
+            isEnemy={true}
+            renderPokemon={pokemon => {
+              const needsTarget = validTargetIds.includes(pokemon.instanceId);
+              const isSelected = needsTarget && selectedTargetIds.includes(pokemon.instanceId);
+              return (
+                <PokemonDisplay
+                  key={pokemon.instanceId}
+                  pokemon={pokemon}
+                  isEnemy={true}
+                  intent={getIntentSummary(battleState, pokemon)}
+                  isCurrentTurn={pokemon.instanceId === currentCombatant.instanceId}
+                  isSelected={isSelected}
+                  damagePreview={pokemon.instanceId === previewTargetId ? damagePreview : undefined}
+                  onClick={needsTarget ? () => handleTargetClick(pokemon.instanceId) : undefined}
+                  onHover={hovering => setHoveredId(hovering ? pokemon.instanceId : undefined)}
+                />
+              );
+            }}
+          />
         </div>
       </div>
 
+      {isPlayback && (
+        <ReplayControls
+          step={playback.step}
+          stepCount={playback.stepCount}
+          playing={playback.playing}
+          speed={playback.speed}
+          onStep={playback.goToStep}
+          onTogglePlaying={playback.togglePlaying}
+          onSpeedChange={playback.setSpeed}
+          onCopyRecording={handleCopyRecording}
+          onExit={playback.exit}
+        />
+      )}
+
       {/* Hand and Controls - Fixed Height */}
-      {isPlayerTurn && currentCombatant && (
+      {!isPlayback && isPlayerTurn && !isAutopilotTurn && currentCombatant && (
         <div
           style={{
             flex: '0 0 auto',
@@ -389,7 +420,7 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
                 {currentCombatant.playerId}'s Turn - {getPokemonStats(currentCombatant.pokemonId).name}
               </h3>
               <div style={{ fontSize: '12px', color: '#9ca3af' }}>
-                Deck: {currentCombatant.deck.length} | Discard: {currentCombatant.discard.length}
+                Deck: {currentCombatant.deck.length} | Discard: {currentCombatant.discard.length} | Exhaust: {currentCombatant.exhaust.length}
               </div>
             </div>
             <div style={{ display: 'flex', gap: '8px', alignItems: 'flex-start' }}>
@@ -411,6 +442,44 @@ export function CombatScreen({ battleState, onAction, onBattleEnd, onResetGame }
                   Play Card
                 </button>
               )}
+              {onUndo && (
+                <button
+                  onClick={handleUndo}
+                  disabled={!canUndoNow}
+                  title="Take back the last card played this turn (Ctrl+Z)"
+                  style={{
+                    padding: '8px 16px',
+                    fontSize: '13px',
+                    fontWeight: 'bold',
+                    backgroundColor: canUndoNow ? '#f59e0b' : '#374151',
+                    color: canUndoNow ? 'white' : '#6b7280',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: canUndoNow ? 'pointer' : 'not-allowed',
+                    flexShrink: 0,
+                  }}
+                >
+                  Undo
+                </button>
+              )}
+              {recording && (
+                <button
+                  onClick={handleStartPlayback}
+                  style={{
+                    padding: '8px 16px',
+                    fontSize: '13px',
+                    fontWeight: 'bold',
+                    backgroundColor: '#6b7280',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    flexShrink: 0,
+                  }}
+                >
+                  Replay
+                </button>
+              )}
               <button
                 onClick={handleEndTurn}
                 style={{
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import type { CampaignState } from '../../engine/types';
+import { canUpgradeCard, canRemoveCard } from '../../engine/campaign';
+import { getCardDefinition, getUpgradedCardId } from '../../config/cards';
+import { getPokemonStats } from '../../config/pokemon';
+import { CardDisplay } from '../components/CardDisplay';
+import { getCardText } from '../cardText';
+
+interface DeckServiceScreenProps {
+  service: 'smith' | 'purge';
+  campaignState: CampaignState;
+  onConfirm: (choices: Array<number | undefined>) => void;
+}
+
+const SERVICE_TEXT = {
+  smith: {
+    title: 'Lab Workshop',
+    instructions: 'Each player may upgrade one card to its next tier.',
+    confirm: 'Upgrade',
+  },
+  purge: {
+    title: 'Recycling Room',
+    instructions: 'Each player may remove one card from their deck.',
+    confirm: 'Remove',
+  },
+};
+
+export function DeckServiceScreen({ service, campaignState, onConfirm }: DeckServiceScreenProps) {
+  // Picked deck index per party member
+  const [choices, setChoices] = useState<Array<number | undefined>>(() => campaignState.party.map(() => undefined));
+  const text = SERVICE_TEXT[service];
+
+  const handleCardClick = (partyIndex: number, deckIndex: number) => {
+    setChoices(prev => prev.map((choice, i) => {
+      if (i !== partyIndex) return choice;
+      return choice === deckIndex ? undefined : deckIndex; // Clicking the picked card again un-picks it
+    }));
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        minHeight: '100vh',
+        padding: '20px',
+        backgroundColor: '#0f172a',
+        color: 'white',
+      }}
+    >
+      <h1 style={{ fontSize: '36px', marginBottom: '8px' }}>{text.title}</h1>
+      <p style={{ fontSize: '16px', color: '#9ca3af', marginBottom: '24px' }}>{text.instructions}</p>
+
+      {campaignState.party.map((member, partyIndex) => {
+        const chosenIndex = choices[partyIndex];
+        const chosenCardId = chosenIndex !== undefined ? member.deck[chosenIndex] : undefined;
+        const upgradedId = chosenCardId ? getUpgradedCardId(chosenCardId) : undefined;
+        const upgradedCard = upgradedId ? getCardDefinition(upgradedId) : undefined;
+
+        return (
+          <div
+            key={partyIndex}
+            style={{
+              width: '100%',
+              maxWidth: '1000px',
+              padding: '16px',
+              backgroundColor: '#1e293b',
+              borderRadius: '12px',
+              marginBottom: '16px',
+            }}
+          >
+            <h2 style={{ fontSize: '18px', marginBottom: '4px' }}>{getPokemonStats(member.pokemonId).name}</h2>
+            <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '12px' }}>
+              {member.playerName && `${member.playerName} - `}Deck: {member.deck.length} cards
+              {service === 'purge' && !canRemoveCard(member) && ' (too small to remove cards)'}
+              {service === 'smith' && upgradedCard && ` - upgrades to: ${getCardText(upgradedCard).join(' ')}`}
+            </div>
+            <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+              {member.deck.map((cardId, deckIndex) => {
+                const card = getCardDefinition(cardId);
+                if (!card) return null;
+                const isAvailable = service === 'smith' ? canUpgradeCard(cardId) : canRemoveCard(member);
+                return (
+                  <CardDisplay
+                    key={`${cardId}-${deckIndex}`}
+                    card={card}
+                    canAfford={isAvailable}
+                    isSelected={chosenIndex === deckIndex}
+                    onClick={() => handleCardClick(partyIndex, deckIndex)}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onConfirm(choices)}
+        style={{
+          padding: '16px 32px',
+          fontSize: '18px',
+          fontWeight: 'bold',
+          backgroundColor: '#3b82f6',
+          color: 'white',
+          border: 'none',
+          borderRadius: '8px',
+          cursor: 'pointer',
+          marginTop: '8px',
+        }}
+      >
+        {choices.some(choice => choice !== undefined) ? text.confirm : 'Leave'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import type { CampaignState } from '../../engine/types';
+import type { EventDefinition } from '../../config/events';
+import { isEventChoiceAvailable } from '../../engine/campaign';
+
+interface EventScreenProps {
+  event: EventDefinition;
+  campaignState: CampaignState;
+  onChoose: (choiceIndex: number) => void;
+}
+
+export function EventScreen({ event, campaignState, onChoose }: EventScreenProps) {
+  // The choice is shown with its result text before it is resolved
+  const [chosenIndex, setChosenIndex] = useState<number | undefined>(undefined);
+  const chosen = chosenIndex !== undefined ? event.choices[chosenIndex] : undefined;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        minHeight: '100vh',
+        padding: '20px',
+        backgroundColor: '#0f172a',
+        color: 'white',
+      }}
+    >
+      <h1 style={{ fontSize: '36px', marginBottom: '20px' }}>{event.name}</h1>
+
+      <div
+        style={{
+          maxWidth: '600px',
+          padding: '24px',
+          backgroundColor: '#1e293b',
+          borderRadius: '12px',
+          marginBottom: '24px',
+        }}
+      >
+        <p style={{ fontSize: '16px', lineHeight: '1.6', marginBottom: '16px' }}>{event.text}</p>
+        <div style={{ fontSize: '14px', color: '#9ca3af' }}>Money: ₽{campaignState.currency}</div>
+      </div>
+
+      {chosen && chosenIndex !== undefined ? (
+        <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '16px' }}>
+          <p style={{ fontSize: '16px', fontStyle: 'italic' }}>{chosen.resultText}</p>
+          <button
+            onClick={() => onChoose(chosenIndex)}
+            style={{
+              padding: '16px 32px',
+              fontSize: '18px',
+              fontWeight: 'bold',
+              backgroundColor: '#3b82f6',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              cursor: 'pointer',
+            }}
+          >
+            Continue
+          </button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px', width: '100%', maxWidth: '600px' }}>
+          {event.choices.map((choice, i) => {
+            const isAvailable = isEventChoiceAvailable(campaignState, choice);
+            return (
+              <button
+                key={i}
+                onClick={isAvailable ? () => setChosenIndex(i) : undefined}
+                disabled={!isAvailable}
+                style={{
+                  padding: '12px 16px',
+                  fontSize: '16px',
+                  textAlign: 'left',
+                  backgroundColor: isAvailable ? '#1f2937' : '#374151',
+                  color: isAvailable ? 'white' : '#6b7280',
+                  border: '2px solid #4b5563',
+                  borderRadius: '8px',
+                  cursor: isAvailable ? 'pointer' : 'not-allowed',
+                }}
+              >
+                {choice.text}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { CAMPAIGN_MAP, getNode } from '../../config/campaign';
-import { getAvailablePaths } from '../../engine/campaign';
+import { getNode } from '../../config/campaign';
+import { getAvailablePaths, getPartyMemberMaxHp } from '../../engine/campaign';
 import type { CampaignState } from '../../engine/types';
 import { MapNode } from '../components/MapNode';
 import { getPokemonStats } from '../../config/pokemon';
@@ -11,10 +11,10 @@ interface MapScreenProps {
 
 export function MapScreen({ campaignState, onNodeClick }: MapScreenProps) {
   const availablePaths = getAvailablePaths(campaignState);
-  const currentNode = getNode(campaignState.currentNodeId);
+  const currentNode = getNode(campaignState.currentNodeId, campaignState.map);
 
   // Simple linear layout for now (could be enhanced with graph visualization)
-  const allNodes = Object.values(CAMPAIGN_MAP.nodes);
+  const allNodes = Object.values(campaignState.map.nodes);
 
   return (
     <div
@@ -29,7 +29,7 @@ export function MapScreen({ campaignState, onNodeClick }: MapScreenProps) {
       <h1 style={{ fontSize: '36px', marginBottom: '24px', textAlign: 'center' }}>Campaign Map</h1>
       
       <div style={{ maxWidth: '1400px', margin: '0 auto', marginBottom: '32px', padding: '20px', backgroundColor: '#1e293b', borderRadius: '8px' }}>
-        <h2 style={{ fontSize: '20px', marginBottom: '12px' }}>Party Status</h2>
+        <h2 style={{ fontSize: '20px', marginBottom: '12px' }}>Party Status - ₽{campaignState.currency}</h2>
         <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
           {campaignState.party.map((member, i) => {
             const stats = getPokemonStats(member.pokemonId);
@@ -45,6 +45,9 @@ export function MapScreen({ campaignState, onNodeClick }: MapScreenProps) {
               >
                 <div style={{ fontWeight: 'bold' }}>{stats.name}</div>
                 {member.playerName && <div style={{ fontSize: '12px', color: '#9ca3af' }}>{member.playerName}</div>}
+                <div style={{ fontSize: '12px', color: '#9ca3af' }}>
+                  HP: {member.currentHp}/{getPartyMemberMaxHp(member)} | Deck: {member.deck.length}
+                </div>
               </div>
             );
           })}
@@ -58,7 +61,7 @@ export function MapScreen({ campaignState, onNodeClick }: MapScreenProps) {
             <h3 style={{ fontSize: '18px', marginBottom: '12px' }}>Available Paths:</h3>
             <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
               {availablePaths.map(nodeId => {
-                const node = getNode(nodeId);
+                const node = getNode(nodeId, campaignState.map);
                 if (!node) return null;
                 return (
                   <MapNode
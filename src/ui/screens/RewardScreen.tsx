@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import type { CampaignState, CardReward } from '../../engine/types';
+import { getCardDefinition } from '../../config/cards';
+import { getPokemonStats } from '../../config/pokemon';
+import { CardDisplay } from '../components/CardDisplay';
+
+interface RewardScreenProps {
+  campaignState: CampaignState;
+  cardRewards: CardReward[];
+  onConfirm: (choices: Array<string | undefined>) => void;
+}
+
+export function RewardScreen({ campaignState, cardRewards, onConfirm }: RewardScreenProps) {
+  // Picked card ID per reward, in the same order as cardRewards
+  const [choices, setChoices] = useState<Array<string | undefined>>(() => cardRewards.map(() => undefined));
+
+  const handleCardClick = (rewardIndex: number, cardId: string) => {
+    setChoices(prev => prev.map((choice, i) => {
+      if (i !== rewardIndex) return choice;
+      return choice === cardId ? undefined : cardId; // Clicking the picked card again un-picks it
+    }));
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        minHeight: '100vh',
+        padding: '20px',
+        backgroundColor: '#0f172a',
+        color: 'white',
+      }}
+    >
+      <h1 style={{ fontSize: '36px', marginBottom: '8px', color: '#22c55e' }}>Battle Won!</h1>
+      <p style={{ fontSize: '16px', color: '#9ca3af', marginBottom: '24px' }}>
+        Each player may add one card to their deck.
+      </p>
+
+      {cardRewards.map((reward, rewardIndex) => {
+        const member = campaignState.party[reward.partyIndex];
+        if (!member) return null;
+
+        return (
+          <div
+            key={reward.partyIndex}
+            style={{
+              width: '100%',
+              maxWidth: '600px',
+              padding: '16px',
+              backgroundColor: '#1e293b',
+              borderRadius: '12px',
+              marginBottom: '16px',
+            }}
+          >
+            <h2 style={{ fontSize: '18px', marginBottom: '4px' }}>{getPokemonStats(member.pokemonId).name}</h2>
+            <div style={{ fontSize: '12px', color: '#9ca3af', marginBottom: '12px' }}>
+              {member.playerName && `${member.playerName} - `}Deck: {member.deck.length} cards
+            </div>
+            <div style={{ display: 'flex', gap: '12px', justifyContent: 'center' }}>
+              {reward.options.map(cardId => {
+                const card = getCardDefinition(cardId);
+                if (!card) return null;
+                return (
+                  <CardDisplay
+                    key={cardId}
+                    card={card}
+                    canAfford={true}
+                    isSelected={choices[rewardIndex] === cardId}
+                    onClick={() => handleCardClick(rewardIndex, cardId)}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onConfirm(choices)}
+        style={{
+          padding: '16px 32px',
+          fontSize: '18px',
+          fontWeight: 'bold',
+          backgroundColor: '#3b82f6',
+          color: 'white',
+          border: 'none',
+          borderRadius: '8px',
+          cursor: 'pointer',
+          marginTop: '8px',
+        }}
+      >
+        {choices.some(choice => choice !== undefined) ? 'Add Cards' : 'Skip Rewards'}
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import type { PokemonId } from '../../config/pokemon';
 import { POKEMON_STATS } from '../../config/pokemon';
+import { DIFFICULTIES, DEFAULT_DIFFICULTY } from '../../config/difficulty';
+import type { Difficulty } from '../../config/difficulty';
+import { TypeBadge } from '../components/TypeBadge';
 
 interface Player {
   id: string;
@@ -9,7 +12,7 @@ interface Player {
 
 interface StarterSelectionScreenProps {
   players: Player[];
-  onStart: (selections: Record<string, PokemonId>) => void;
+  onStart: (selections: Record<string, PokemonId>, difficulty: Difficulty) => void;
   onBack: () => void;
 }
 
@@ -17,6 +20,7 @@ const STARTERS: PokemonId[] = ['bulbasaur', 'squirtle', 'charmander', 'pikachu']
 
 export function StarterSelectionScreen({ players, onStart, onBack }: StarterSelectionScreenProps) {
   const [selections, setSelections] = useState<Record<string, PokemonId>>({});
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
 
   const handleSelect = (playerId: string, pokemonId: PokemonId) => {
     // Check if already selected by another player
@@ -45,7 +49,7 @@ export function StarterSelectionScreen({ players, onStart, onBack }: StarterSele
     >
       <h1 style={{ fontSize: '36px', marginBottom: '32px', marginTop: '40px' }}>Choose Your Starter</h1>
       
-      {players.map((player, playerIndex) => {
+      {players.map(player => {
         const selected = selections[player.id];
         return (
           <div key={player.id} style={{ marginBottom: '32px', width: '100%', maxWidth: '1000px' }}>
@@ -83,6 +87,9 @@ export function StarterSelectionScreen({ players, onStart, onBack }: StarterSele
                       }}
                     />
                     <div style={{ fontWeight: 'bold', marginTop: '8px' }}>{stats.name}</div>
+                    <div style={{ display: 'flex', gap: '4px', justifyContent: 'center', marginTop: '4px' }}>
+                      {stats.types.map(type => <TypeBadge key={type} type={type} />)}
+                    </div>
                     {isTaken && <div style={{ fontSize: '12px', color: '#9ca3af' }}>Taken</div>}
                     {isSelected && <div style={{ fontSize: '12px', color: '#fbbf24' }}>Selected</div>}
                   </div>
@@ -93,6 +100,32 @@ export function StarterSelectionScreen({ players, onStart, onBack }: StarterSele
         );
       })}
 
+      <div style={{ width: '100%', maxWidth: '1000px', textAlign: 'center' }}>
+        <h2 style={{ fontSize: '24px', marginBottom: '16px' }}>Difficulty</h2>
+        <div style={{ display: 'flex', gap: '16px', justifyContent: 'center' }}>
+          {(Object.keys(DIFFICULTIES) as Difficulty[]).map(option => {
+            const isSelected = option === difficulty;
+            return (
+              <div
+                key={option}
+                onClick={() => setDifficulty(option)}
+                style={{
+                  border: isSelected ? '3px solid #fbbf24' : '2px solid #4b5563',
+                  borderRadius: '12px',
+                  padding: '12px 16px',
+                  backgroundColor: isSelected ? '#1f2937' : '#111827',
+                  cursor: 'pointer',
+                  width: '200px',
+                }}
+              >
+                <div style={{ fontWeight: 'bold' }}>{DIFFICULTIES[option].name}</div>
+                <div style={{ fontSize: '12px', color: '#9ca3af', marginTop: '4px' }}>{DIFFICULTIES[option].description}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       <div style={{ display: 'flex', gap: '16px', marginTop: '32px' }}>
         <button
           onClick={onBack}
@@ -109,7 +142,7 @@ export function StarterSelectionScreen({ players, onStart, onBack }: StarterSele
           Back
         </button>
         <button
-          onClick={() => onStart(selections)}
+          onClick={() => onStart(selections, difficulty)}
           disabled={!allSelected}
           style={{
             padding: '12px 24px',